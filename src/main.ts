@@ -1,17 +1,31 @@
 import {
   App,
   FileView,
+  FuzzySuggestModal,
   ItemView,
+  MarkdownView,
+  Modal,
   Notice,
   Plugin,
   PluginSettingTab,
   Setting,
+  TAbstractFile,
   TFile,
+  TFolder,
   WorkspaceLeaf,
+  loadPdfJs,
   requestUrl,
 } from "obsidian";
 
-type HighlightColor = "yellow" | "green" | "blue" | "flashcard";
+/** Id of a `HighlightCategory`; the legacy ids are yellow, green, blue and flashcard. */
+type HighlightColor = string;
+
+interface HighlightCategory {
+  id: HighlightColor;
+  name: string;
+  color: string;
+  flashcards: boolean;
+}
 
 interface HighlightRect {
   x: number;
@@ -25,6 +39,13 @@ interface HighlightPage {
   rects: HighlightRect[];
 }
 
+/** Text around a highlight, read from the PDF so fragments like "it increases" make sense. */
+interface HighlightContext {
+  before: string;
+  after: string;
+  heading?: string;
+}
+
 interface Highlight {
   id: string;
   color: HighlightColor;
@@ -33,6 +54,8 @@ interface Highlight {
   createdAt: string;
   pages: HighlightPage[];
   flashcardGenerated?: boolean;
+  note?: string;
+  context?: HighlightContext;
 }
 
 interface HighlightFile {
@@ -41,20 +64,149 @@ interface HighlightFile {
   highlights: Highlight[];
 }
 
+/** One concept, page-range summary or question; `sources` are 1-based highlight numbers. */
+interface StudyGuideEntry {
+  title: string;
+  text: string;
+  sources: number[];
+}
+
+interface StudyGuide {
+  concepts: StudyGuideEntry[];
+  sections: StudyGuideEntry[];
+  questions: StudyGuideEntry[];
+}
+
+type CardType = "basic" | "cloze";
+
 interface Flashcard {
   id: string;
+  /** Missing means "basic". Cloze cards keep the `{{c1::...}}` text in `question`. */
+  type?: CardType;
   sourcePath: string;
   highlightIds: string[];
   question: string;
   answer: string;
   createdAt: string;
+  /** Missing on older cards; see `PdfFlashcardsPlugin.deckFor`. */
+  deck?: string;
+  tags?: string[];
+  /** Wrong options for multiple-choice study, generated alongside the card. */
+  distractors?: string[];
+  /** Set when the model cited highlight numbers that don't exist, or none at all. */
+  unresolvedSource?: boolean;
+}
+
+type StudyMode = "flip" | "choice" | "typed";
+
+interface AnswerAttempt {
+  correct: boolean;
+  suggested: Rating;
+  picked?: string;
+  diff?: DiffOp[];
+}
+
+interface DiffOp {
+  kind: "same" | "missing" | "extra";
+  text: string;
 }
 
+/** One schedulable unit: a basic card, or one cloze number of a cloze card. */
+interface StudyItem {
+  key: string;
+  card: Flashcard;
+  cloze?: number;
+}
+
+interface ParsedCards {
+  cards: GeneratedCard[];
+  /** Human-readable problems, fed back to the model on a repair attempt. */
+  errors: string[];
+}
+
+interface GeneratedCard {
+  type: CardType;
+  question: string;
+  answer: string;
+  distractors?: string[];
+  /** 1-based highlight numbers from the prompt. */
+  sources: number[];
+}
+
+type StudyScope =
+  | { kind: "all" }
+  | { kind: "deck"; deck: string }
+  | { kind: "tag"; tag: string }
+  | { kind: "source"; sourcePath: string };
+
 interface FlashcardFile {
   version: number;
   cards: Flashcard[];
 }
 
+type ProviderId = "openai" | "openai-compatible" | "anthropic" | "ollama";
+
+interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  /** Send a JSON schema with the request; only some OpenAI-compatible servers accept it. */
+  structuredOutput?: boolean;
+}
+
+interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+interface LlmRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  /** Structured output hint; providers without support rely on the prompt alone. */
+  schema?: JsonSchemaFormat;
+}
+
+interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface LlmCompletion {
+  text: string;
+  /** The model that answered, as reported by the server when it says so. */
+  model: string;
+  /** Missing when the server doesn't report token counts. */
+  usage?: LlmUsage;
+}
+
+interface LlmProvider {
+  readonly label: string;
+  readonly model: string;
+  /** Why the provider can't be called with the current settings, if anything. */
+  configError(): string | null;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+/** One line of `usage-log.jsonl`. */
+interface UsageEntry {
+  timestamp: string;
+  provider: string;
+  model: string;
+  sourcePath: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Counts were estimated from text length because the server sent none. */
+  estimated?: boolean;
+}
+
+/** US dollars per million tokens. */
+interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
 interface OpenAIOutputContent {
   type?: string;
   text?: string;
@@ -66,56 +218,789 @@ interface OpenAIOutputItem {
 }
 
 interface OpenAIResponseData {
+  model?: string;
   output_text?: string;
   output?: OpenAIOutputItem[];
   content?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
 }
 
+type Rating = "again" | "hard" | "good" | "easy";
+
 interface CardProgress {
   lastReviewedAt?: string;
   nextDueAt?: string;
+  /** Consecutive successful reviews; resets on a lapse. */
   streak: number;
   intervalDays: number;
+  /** SM-2 ease factor. Missing on progress written before the scheduler existed. */
+  ease?: number;
+  lapses?: number;
+  introducedAt?: string;
+  lastRating?: Rating;
+  /** Legacy flag from the pre-scheduler model; ignored. */
   done?: boolean;
 }
 
+interface ReviewLogEntry {
+  cardId: string;
+  reviewedAt: string;
+  rating: Rating;
+  previousIntervalDays: number;
+  intervalDays: number;
+}
+
 interface ProgressFile {
   version: number;
   progress: Record<string, CardProgress>;
 }
 
+interface ChatCompletionData {
+  model?: string;
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessageData {
+  model?: string;
+  content?: { type?: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface OllamaChatData {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface GenerationProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** User prompt with {{highlights}}, {{notes}}, {{title}} and {{pages}} placeholders. */
+  template: string;
+  /** Overrides the provider's model when set. */
+  model: string;
+  temperature: number;
+  cardsPerHighlight: number;
+}
+
+type AnnotationGrouping = "color" | "page" | "date" | "none";
+
+const DEFAULT_ANNOTATION_TEMPLATE =
+  "- {{text}}{{#pages}} ({{pageLinks}}){{/pages}} [↗]({{link}}){{#note}}\n  > {{note}}{{/note}}";
+
 interface PluginSettings {
+  provider: ProviderId;
+  /** OpenAI Responses API key and model. */
   apiKey: string;
   model: string;
+  openaiCompatible: ProviderConfig;
+  anthropic: ProviderConfig;
+  ollama: ProviderConfig;
   storageFolder: string;
+  palette: HighlightCategory[];
+  newCardsPerDay: number;
+  /** Vault folder for exported card files; empty means the vault root. */
+  exportFolder: string;
+  exportScheduling: boolean;
+  /** Mirror cards into one Markdown note per source and read edits back. */
+  syncNotes: boolean;
+  syncFolder: string;
+  annotationTemplate: string;
+  annotationGrouping: AnnotationGrouping;
+  /** Only rewrite the part of an annotation note between the export markers. */
+  annotationManagedRegion: boolean;
+  allowCloze: boolean;
+  studyMode: StudyMode;
+  reviewBeforeSave: boolean;
+  /** Rough token budget for the highlight text sent in one request. */
+  batchTokenBudget: number;
+  generationConcurrency: number;
+  /** Characters of surrounding PDF text sent on each side of a highlight; 0 disables. */
+  contextChars: number;
+  prices: ModelPrice[];
+  /** Soft monthly spending limit in US dollars; 0 turns the warning off. */
+  monthlyBudget: number;
+  profiles: GenerationProfile[];
+  defaultProfileId: string;
 }
 
+const DEFAULT_PALETTE: HighlightCategory[] = [
+  { id: "yellow", name: "Yellow", color: "#ffe066", flashcards: false },
+  { id: "green", name: "Green", color: "#b2f2bb", flashcards: false },
+  { id: "blue", name: "Blue", color: "#a5d8ff", flashcards: false },
+  { id: "flashcard", name: "Flashcard", color: "#ffb3c1", flashcards: true },
+];
+
+const DEFAULT_PROFILE: GenerationProfile = {
+  id: "default",
+  name: "Default",
+  systemPrompt: "You are a helpful assistant that turns study highlights into flashcards.",
+  template:
+    "Create concise flashcards from the following highlights of \"{{title}}\". " +
+    "Avoid markdown, and keep questions short and clear. " +
+    "Some highlights carry a reader's note; use it as extra context, not as a separate card.\n\n" +
+    "{{highlights}}",
+  model: "",
+  temperature: 0.2,
+  cardsPerHighlight: 1,
+};
+
+const PROFILE_PLACEHOLDERS = ["highlights", "notes", "title", "pages"];
+
 const DEFAULT_SETTINGS: PluginSettings = {
+  provider: "openai",
   apiKey: "",
   model: "gpt-5.1",
+  openaiCompatible: {
+    baseUrl: "http://localhost:1234/v1",
+    apiKey: "",
+    model: "",
+    structuredOutput: true,
+  },
+  anthropic: {
+    baseUrl: "https://api.anthropic.com",
+    apiKey: "",
+    model: "claude-3-5-sonnet-latest",
+  },
+  ollama: { baseUrl: "http://localhost:11434", apiKey: "", model: "llama3.1" },
   storageFolder: ".flashcards",
+  palette: DEFAULT_PALETTE,
+  newCardsPerDay: 20,
+  exportFolder: "",
+  exportScheduling: false,
+  syncNotes: false,
+  syncFolder: "Flashcards",
+  annotationTemplate: DEFAULT_ANNOTATION_TEMPLATE,
+  annotationGrouping: "color",
+  annotationManagedRegion: true,
+  allowCloze: true,
+  studyMode: "flip",
+  reviewBeforeSave: true,
+  batchTokenBudget: 3000,
+  generationConcurrency: 2,
+  contextChars: 300,
+  prices: [
+    { model: "gpt-5.1", input: 1.25, output: 10 },
+    { model: "gpt-4o-mini", input: 0.15, output: 0.6 },
+    { model: "claude-3-5-sonnet", input: 3, output: 15 },
+    { model: "claude-3-5-haiku", input: 0.8, output: 4 },
+  ],
+  monthlyBudget: 0,
+  profiles: [DEFAULT_PROFILE],
+  defaultProfileId: DEFAULT_PROFILE.id,
+};
+
+const PROVIDERS: { id: ProviderId; label: string }[] = [
+  { id: "openai", label: "OpenAI" },
+  { id: "openai-compatible", label: "OpenAI-compatible (chat/completions)" },
+  { id: "anthropic", label: "Anthropic" },
+  { id: "ollama", label: "Ollama (local)" },
+];
+
+const FLASHCARD_SCHEMA: JsonSchemaFormat = {
+  name: "flashcards",
+  schema: {
+    type: "object",
+    properties: {
+      cards: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["basic", "cloze"] },
+            question: { type: "string" },
+            answer: { type: "string" },
+            text: { type: "string" },
+            distractors: { type: "array", items: { type: "string" } },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["type", "sources"],
+        },
+      },
+    },
+    required: ["cards"],
+  },
+};
+
+const STUDY_GUIDE_SCHEMA: JsonSchemaFormat = {
+  name: "study_guide",
+  schema: {
+    type: "object",
+    properties: {
+      concepts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            term: { type: "string" },
+            explanation: { type: "string" },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["term", "explanation", "sources"],
+        },
+      },
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            summary: { type: "string" },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["title", "summary", "sources"],
+        },
+      },
+      questions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "string" },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["question", "sources"],
+        },
+      },
+    },
+    required: ["concepts", "sections", "questions"],
+  },
 };
 
+/** Joins concepts from several study guide parts that share a title, keeping all sources. */
+function mergeGuideEntries(entries: StudyGuideEntry[]): StudyGuideEntry[] {
+  const byTitle = new Map<string, StudyGuideEntry>();
+  entries.forEach((entry) => {
+    const key = entry.title.trim().toLowerCase();
+    const known = byTitle.get(key);
+    if (!known) {
+      byTitle.set(key, { ...entry });
+      return;
+    }
+    known.sources = Array.from(new Set([...known.sources, ...entry.sources]));
+    if (entry.text && !known.text.includes(entry.text)) {
+      known.text = known.text ? `${known.text} ${entry.text}` : entry.text;
+    }
+  });
+  return Array.from(byTitle.values());
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
 const HIGHLIGHT_VERSION = 1;
 const FLASHCARD_VERSION = 1;
 const PROGRESS_VERSION = 1;
 
-const COLOR_MAP: Record<HighlightColor, string> = {
-  yellow: "#ffe066",
-  green: "#b2f2bb",
-  blue: "#a5d8ff",
-  flashcard: "#ffb3c1",
-};
+const FALLBACK_HIGHLIGHT_COLOR = "#ced4da";
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const STUDY_MODES: { mode: StudyMode; label: string }[] = [
+  { mode: "flip", label: "Flip" },
+  { mode: "choice", label: "Multiple choice" },
+  { mode: "typed", label: "Type the answer" },
+];
+const RATINGS: { rating: Rating; label: string }[] = [
+  { rating: "again", label: "Again" },
+  { rating: "hard", label: "Hard" },
+  { rating: "good", label: "Good" },
+  { rating: "easy", label: "Easy" },
+];
 
 const FLASHCARD_VIEW_TYPE = "study-assist-flashcards-view";
 const FLASHCARD_MANAGE_VIEW_TYPE = "study-assist-flashcards-manage";
+const STATS_VIEW_TYPE = "study-assist-stats";
+const SOURCE_PROTOCOL_ACTION = "study-assist";
+
+function normalizeRating(rating: Rating | boolean): Rating {
+  if (typeof rating === "boolean") return rating ? "good" : "again";
+  return rating;
+}
+
+function clozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    numbers.add(parseInt(match[1], 10));
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/** Progress is keyed per card for basic cards and per cloze number for cloze cards. */
+function studyItemsFor(cards: Flashcard[]): StudyItem[] {
+  return cards.flatMap((card) => {
+    if (card.type !== "cloze") return [{ key: card.id, card }];
+    return clozeNumbers(card.question).map((cloze) => ({
+      key: `${card.id}::c${cloze}`,
+      card,
+      cloze,
+    }));
+  });
+}
+
+/** What the learner has to produce: the answer, or the text behind the active cloze. */
+function expectedAnswer(item: StudyItem): string {
+  if (item.cloze === undefined) return item.card.answer;
+  const answers: string[] = [];
+  for (const match of item.card.question.matchAll(CLOZE_PATTERN)) {
+    if (parseInt(match[1], 10) === item.cloze) answers.push(match[2]);
+  }
+  return answers.join(", ");
+}
+
+function normalizeAnswer(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Character-level edit script from `typed` to `expected` (Levenshtein backtrace). */
+function diffAnswer(typed: string, expected: string): DiffOp[] {
+  const a = Array.from(typed);
+  const b = Array.from(expected);
+  const dist: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const same = a[i - 1].toLowerCase() === b[j - 1].toLowerCase();
+      dist[i][j] = Math.min(
+        dist[i - 1][j] + 1,
+        dist[i][j - 1] + 1,
+        dist[i - 1][j - 1] + (same ? 0 : 2)
+      );
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (kind: DiffOp["kind"], text: string) => {
+    const last = ops[0];
+    if (last && last.kind === kind) last.text = text + last.text;
+    else ops.unshift({ kind, text });
+  };
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      a[i - 1].toLowerCase() === b[j - 1].toLowerCase() &&
+      dist[i][j] === dist[i - 1][j - 1]
+    ) {
+      push("same", b[j - 1]);
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || dist[i][j] === dist[i][j - 1] + 1)) {
+      push("missing", b[j - 1]);
+      j--;
+    } else {
+      push("extra", a[i - 1]);
+      i--;
+    }
+  }
+  return ops;
+}
+
+function answerSimilarity(typed: string, expected: string): number {
+  const a = normalizeAnswer(typed);
+  const b = normalizeAnswer(expected);
+  if (!a && !b) return 1;
+  if (!a || !b) return 0;
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - row[b.length] / Math.max(a.length, b.length);
+}
+
+/** Cards scoring at least this on `cardSimilarity` count as duplicates. */
+const DUPLICATE_THRESHOLD = 0.85;
+
+/** Question and answer as plain words; cloze markup is reduced to its answers. */
+function cardFingerprint(card: Flashcard): string {
+  const question = card.question.replace(CLOZE_PATTERN, (_match, _number, answer: string) => answer);
+  return normalizeAnswer(card.type === "cloze" ? question : `${question} ${card.answer}`);
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+/** Dice coefficient over character trigrams; tolerant of reordering and small edits. */
+function cardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  // Upper bound from the sizes alone; skips most pairs without counting.
+  if ((2 * Math.min(a.size, b.size)) / (a.size + b.size) < DUPLICATE_THRESHOLD) return 0;
+  let shared = 0;
+  a.forEach((gram) => {
+    if (b.has(gram)) shared += 1;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Maps the id of each card in `cards` that duplicates an existing card, or an
+ * earlier card of the same list, to the card it duplicates.
+ */
+function findDuplicates(cards: Flashcard[], existing: Flashcard[]): Map<string, Flashcard> {
+  const known = existing.map((card) => ({ card, grams: trigrams(cardFingerprint(card)) }));
+  const duplicates = new Map<string, Flashcard>();
+  cards.forEach((card) => {
+    const grams = trigrams(cardFingerprint(card));
+    const match = known.find((other) => cardSimilarity(grams, other.grams) >= DUPLICATE_THRESHOLD);
+    if (match) duplicates.set(card.id, match.card);
+    else known.push({ card, grams });
+  });
+  return duplicates;
+}
+
+/** Groups of two or more mutually similar cards, in their original order. */
+function findDuplicateGroups(cards: Flashcard[]): Flashcard[][] {
+  const grams = cards.map((card) => trigrams(cardFingerprint(card)));
+  const parent = cards.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  for (let i = 0; i < cards.length; i++) {
+    for (let j = i + 1; j < cards.length; j++) {
+      if (cardSimilarity(grams[i], grams[j]) >= DUPLICATE_THRESHOLD) parent[root(j)] = root(i);
+    }
+  }
+  const groups = new Map<number, Flashcard[]>();
+  cards.forEach((card, index) => {
+    const key = root(index);
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  });
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function cardIdForProgressKey(key: string): string {
+  return key.split("::")[0];
+}
+
+/**
+ * Writes cloze text into `el`, blanking the active deletion (or revealing it)
+ * and showing every other deletion as plain text.
+ */
+function renderCloze(el: HTMLElement, text: string, active: number, reveal: boolean) {
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = match.index ?? 0;
+    el.appendText(text.slice(last, index));
+    const [, number, answer, hint] = match;
+    if (parseInt(number, 10) !== active) {
+      el.appendText(answer);
+    } else if (reveal) {
+      el.createSpan({ text: answer, cls: "study-assist-cloze is-revealed" });
+    } else {
+      el.createSpan({ text: hint ? `[${hint}]` : "[...]", cls: "study-assist-cloze" });
+    }
+    last = index + match[0].length;
+  }
+  el.appendText(text.slice(last));
+}
+
+function defaultDeckFor(sourcePath: string): string {
+  if (sourcePath === "manual") return "Manual";
+  const parts = sourcePath.split("/");
+  const fileName = parts.pop() ?? sourcePath;
+  if (parts.length > 0) return parts.join("/");
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+function parseTags(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,\s]+/)
+        .map((tag) => tag.replace(/^#/, "").trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** A card as written in a synced note; `id` is missing for cards typed into the note. */
+interface NoteCard {
+  id?: string;
+  type: CardType;
+  question: string;
+  answer: string;
+  deck?: string;
+  tags: string[];
+}
+
+const CARD_NOTE_SOURCE_KEY = "flashcards-source";
+const CARD_NOTE_CALLOUT = /^>\s*\[!(flashcard|cloze)\][+-]?\s?(.*)$/i;
+const CARD_NOTE_BLOCK_ID = /^\^card-([A-Za-z0-9-]+)\s*$/;
+const CARD_NOTE_FIELD = /^(deck|tags)::\s*(.*)$/i;
+
+/**
+ * One callout per card: the question is the title, the answer is the body,
+ * followed by optional `deck::` and `tags::` lines and a `^card-<id>` block id.
+ */
+function renderCardNote(sourcePath: string, cards: Flashcard[]): string {
+  const source = sourcePath === "manual" ? "manual" : `[[${sourcePath}]]`;
+  const lines = ["---", `${CARD_NOTE_SOURCE_KEY}: "${source}"`, "---", ""];
+  cards.forEach((card) => {
+    const callout = card.type === "cloze" ? "cloze" : "flashcard";
+    lines.push(`> [!${callout}] ${card.question.trim().replace(/\r?\n/g, "<br>")}`);
+    const body = card.answer.trim() ? card.answer.trim().split(/\r?\n/) : [];
+    if (card.deck) body.push(`deck:: ${card.deck}`);
+    if (card.tags && card.tags.length > 0) {
+      body.push(`tags:: ${card.tags.map((tag) => `#${tag}`).join(" ")}`);
+    }
+    body.forEach((line) => lines.push(line ? `> ${line}` : ">"));
+    lines.push(`^card-${card.id}`, "");
+  });
+  return lines.join("\n");
+}
+
+/** `blockIds` are all `^card-` ids still in the note, including ones next to broken callouts. */
+function parseCardNote(text: string): {
+  sourcePath: string | null;
+  cards: NoteCard[];
+  blockIds: Set<string>;
+} {
+  const lines = text.split(/\r?\n/);
+  let sourcePath: string | null = null;
+  let start = 0;
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end > 0) {
+      for (const line of lines.slice(1, end)) {
+        const match = line.match(/^([\w-]+):\s*"?(?:\[\[)?(.*?)(?:\]\])?"?\s*$/);
+        if (match && match[1] === CARD_NOTE_SOURCE_KEY && match[2]) sourcePath = match[2];
+      }
+      start = end + 1;
+    }
+  }
+
+  const cards: NoteCard[] = [];
+  for (let i = start; i < lines.length; i++) {
+    const head = lines[i].match(CARD_NOTE_CALLOUT);
+    if (!head) continue;
+    const body: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].startsWith(">")) {
+      body.push(lines[++i].replace(/^>\s?/, ""));
+    }
+    // Obsidian's own convention puts a blank line between a callout and its block id.
+    let next = i + 1;
+    while (next < lines.length && !lines[next].trim()) next++;
+    const blockId = lines[next]?.match(CARD_NOTE_BLOCK_ID);
+    if (blockId) i = next;
+
+    let deck: string | undefined;
+    let tags: string[] = [];
+    const answer = body.filter((line) => {
+      const field = line.match(CARD_NOTE_FIELD);
+      if (!field) return true;
+      if (field[1].toLowerCase() === "deck") deck = field[2].trim() || undefined;
+      else tags = parseTags(field[2]);
+      return false;
+    });
+    cards.push({
+      id: blockId?.[1],
+      type: head[1].toLowerCase() === "cloze" ? "cloze" : "basic",
+      question: head[2].replace(/<br\s*\/?>/gi, "\n").trim(),
+      answer: answer.join("\n").trim(),
+      deck,
+      tags,
+    });
+  }
+  const blockIds = new Set(
+    lines.slice(start).flatMap((line) => line.trim().match(CARD_NOTE_BLOCK_ID)?.[1] ?? [])
+  );
+  return { sourcePath, cards, blockIds };
+}
+
+function scopeLabel(scope: StudyScope): string {
+  switch (scope.kind) {
+    case "all":
+      return "All cards";
+    case "deck":
+      return `Deck: ${scope.deck}`;
+    case "tag":
+      return `Tag: #${scope.tag}`;
+    case "source":
+      return `PDF: ${scope.sourcePath.split("/").pop() ?? scope.sourcePath}`;
+  }
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Share of passed reviews among cards that were already out of learning, i.e.
+ * had an interval of at least a day before the review.
+ */
+function formatRetention(entries: ReviewLogEntry[]): string {
+  const mature = entries.filter((entry) => entry.previousIntervalDays >= 1);
+  if (mature.length === 0) return "–";
+  const passed = mature.filter((entry) => entry.rating !== "again").length;
+  return `${Math.round((passed / mature.length) * 100)}%`;
+}
+
+function formatInterval(days: number): string {
+  if (days <= 0) return "today";
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+class StudyScopeModal extends FuzzySuggestModal<StudyScope> {
+  private scopes: StudyScope[];
+  private onChoose: (scope: StudyScope) => void;
+
+  constructor(
+    app: App,
+    scopes: StudyScope[],
+    onChoose: (scope: StudyScope) => void,
+    placeholder = "Choose what to study"
+  ) {
+    super(app);
+    this.scopes = scopes;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): StudyScope[] {
+    return this.scopes;
+  }
+
+  getItemText(scope: StudyScope): string {
+    return scopeLabel(scope);
+  }
+
+  onChooseItem(scope: StudyScope) {
+    this.onChoose(scope);
+  }
+}
+
+class ProfileModal extends FuzzySuggestModal<GenerationProfile> {
+  private profiles: GenerationProfile[];
+  private onChoose: (profile: GenerationProfile) => void;
+
+  constructor(app: App, profiles: GenerationProfile[], onChoose: (profile: GenerationProfile) => void) {
+    super(app);
+    this.profiles = profiles;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a generation profile");
+  }
+
+  getItems(): GenerationProfile[] {
+    return this.profiles;
+  }
+
+  getItemText(profile: GenerationProfile): string {
+    return profile.model ? `${profile.name} (${profile.model})` : profile.name;
+  }
+
+  onChooseItem(profile: GenerationProfile) {
+    this.onChoose(profile);
+  }
+}
+
+/** Fills `{{name}}` placeholders; unknown names are left as written. */
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+const ANNOTATION_REGION_START = "%% study-assist:start %%";
+const ANNOTATION_REGION_END = "%% study-assist:end %%";
+
+/**
+ * Fills an annotation template. `{{#field}}...{{/field}}` is dropped when the
+ * field is empty, and each line of a multi-line value repeats the indentation
+ * and quote markers in front of its placeholder.
+ */
+function renderAnnotationTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, key: string, inner: string) =>
+      values[key] ? inner : ""
+    )
+    .split("\n")
+    .map((line) => {
+      const prefix = line.match(/^[ \t>]*/)?.[0] ?? "";
+      return line.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+        key in values ? values[key].replace(/\n/g, `\n${prefix}`) : match
+      );
+    })
+    .join("\n")
+    .replace(/[ \t]+$/gm, "");
+}
+
+/** Replaces the text between the export markers, or appends a marked region when there is none. */
+function replaceManagedRegion(existing: string, content: string): string {
+  const region = `${ANNOTATION_REGION_START}\n${content.trimEnd()}\n${ANNOTATION_REGION_END}`;
+  const start = existing.indexOf(ANNOTATION_REGION_START);
+  const end = existing.indexOf(ANNOTATION_REGION_END, start);
+  if (start >= 0 && end > start) {
+    return existing.slice(0, start) + region + existing.slice(end + ANNOTATION_REGION_END.length);
+  }
+  return existing.trim() ? `${existing.trimEnd()}\n\n${region}\n` : `${region}\n`;
+}
+
+/** Collapses page numbers into ranges, e.g. [1, 2, 3, 7] -> "1-3, 7". */
+function formatPageRanges(pages: number[]): string {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+  sorted.slice(1).concat(NaN).forEach((page) => {
+    if (page === prev + 1) {
+      prev = page;
+      return;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = page;
+    prev = page;
+  });
+  return sorted.length === 0 ? "" : ranges.join(", ");
+}
 
 class FlashcardView extends ItemView {
   private plugin: PdfFlashcardsPlugin;
+  private allCards: Flashcard[] = [];
   private cards: Flashcard[] = [];
+  private studyScope: StudyScope = { kind: "all" };
   private index = 0;
   private showingAnswer = false;
   private progress: Record<string, CardProgress> = {};
+  private attempt?: AnswerAttempt;
+  private choices?: { key: string; options: string[] };
 
   constructor(leaf: WorkspaceLeaf, plugin: PdfFlashcardsPlugin) {
     super(leaf);
@@ -138,10 +1023,18 @@ class FlashcardView extends ItemView {
   }
 
   async reload() {
-    this.cards = await this.plugin.loadAllCards();
+    this.allCards = await this.plugin.loadAllCards();
+    this.cards = this.plugin.filterCardsByScope(this.allCards, this.studyScope);
     this.progress = await this.plugin.loadProgress();
     this.index = 0;
     this.showingAnswer = false;
+    this.attempt = undefined;
+    this.choices = undefined;
+  }
+
+  async setScope(scope: StudyScope) {
+    this.studyScope = scope;
+    await this.refresh();
   }
 
   async refresh() {
@@ -153,78 +1046,250 @@ class FlashcardView extends ItemView {
     this.containerEl.empty();
   }
 
-  private currentCard(): Flashcard | null {
-    const remaining = this.remainingCards();
+  private currentItem(): StudyItem | null {
+    const remaining = this.remainingItems();
     if (remaining.length === 0) return null;
     return remaining[this.index % remaining.length];
   }
 
-  private async handleGrade(isGood: boolean) {
-    const card = this.currentCard();
-    if (!card) return;
-    await this.plugin.updateProgressOptimistic(card.id, isGood);
+  private async handleGrade(rating: Rating) {
+    const item = this.currentItem();
+    if (!item) return;
+    await this.plugin.updateProgressOptimistic(item.key, rating);
     this.progress = await this.plugin.loadProgress();
-    const remaining = this.remainingCards();
-    if (remaining.length > 0) {
-      this.index = (this.index + 1) % remaining.length;
-    } else {
-      this.index = 0;
-    }
+    const remaining = this.remainingItems();
+    // A failed card stays due; don't show it again straight away.
+    this.index = remaining.length > 1 && remaining[0].key === item.key ? 1 : 0;
     this.showingAnswer = false;
+    this.attempt = undefined;
+    this.choices = undefined;
+    this.render();
+  }
+
+  /** The right answer plus up to three distractors, fixed for as long as the item is shown. */
+  private choicesFor(item: StudyItem): string[] {
+    if (this.choices?.key === item.key) return this.choices.options;
+    const correct = expectedAnswer(item);
+    const seen = new Set([normalizeAnswer(correct)]);
+    const wrong: string[] = [];
+    const consider = (option: string) => {
+      const normalized = normalizeAnswer(option);
+      if (!normalized || seen.has(normalized) || wrong.length >= 3) return;
+      seen.add(normalized);
+      wrong.push(option);
+    };
+    (item.card.distractors ?? []).forEach(consider);
+    shuffle(studyItemsFor(this.allCards).filter((other) => other.card.id !== item.card.id))
+      .map((other) => expectedAnswer(other))
+      .forEach(consider);
+    const options = shuffle([correct, ...wrong]);
+    this.choices = { key: item.key, options };
+    return options;
+  }
+
+  private submitChoice(item: StudyItem, picked: string) {
+    const correct = normalizeAnswer(picked) === normalizeAnswer(expectedAnswer(item));
+    this.attempt = { correct, picked, suggested: correct ? "good" : "again" };
+    this.showingAnswer = true;
+    this.render();
+  }
+
+  private submitTyped(item: StudyItem, typed: string) {
+    const expected = expectedAnswer(item);
+    const similarity = answerSimilarity(typed, expected);
+    let suggested: Rating = "again";
+    if (similarity >= 1) suggested = "good";
+    else if (similarity >= 0.8) suggested = "hard";
+    this.attempt = {
+      correct: similarity >= 0.8,
+      suggested,
+      diff: diffAnswer(typed.trim(), expected),
+    };
+    this.showingAnswer = true;
     this.render();
   }
 
-  private remainingCards(): Flashcard[] {
-    return this.cards.filter((card) => !this.progress[card.id]?.done);
+  private renderAnswerArea(item: StudyItem) {
+    const mode = this.plugin.settings.studyMode;
+    if (mode === "flip") return;
+    const area = this.containerEl.createDiv({ cls: "study-assist-answer-area" });
+
+    if (mode === "choice") {
+      const expected = normalizeAnswer(expectedAnswer(item));
+      this.choicesFor(item).forEach((option) => {
+        const btn = area.createEl("button", { text: option, cls: "study-assist-choice" });
+        if (this.attempt) {
+          btn.disabled = true;
+          if (normalizeAnswer(option) === expected) btn.addClass("is-correct");
+          else if (option === this.attempt.picked) btn.addClass("is-wrong");
+        } else {
+          btn.addEventListener("click", () => this.submitChoice(item, option));
+        }
+      });
+      return;
+    }
+
+    if (this.attempt?.diff) {
+      const diffEl = area.createDiv({ cls: "study-assist-answer-diff" });
+      this.attempt.diff.forEach((op) => {
+        diffEl.createSpan({ text: op.text, cls: `study-assist-diff-${op.kind}` });
+      });
+      area.createDiv({
+        text: this.attempt.correct ? "Close enough." : "Not quite.",
+        cls: "study-assist-answer-verdict",
+      });
+      return;
+    }
+
+    const input = area.createEl("input", { type: "text", cls: "study-assist-typed-input" });
+    input.placeholder = "Type your answer";
+    const checkBtn = area.createEl("button", { text: "Check" });
+    const submit = () => this.submitTyped(item, input.value);
+    checkBtn.addEventListener("click", submit);
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        submit();
+      }
+    });
+    window.setTimeout(() => input.focus(), 0);
+  }
+
+  private remainingItems(): StudyItem[] {
+    return this.plugin.buildStudyQueue(this.cards, this.progress);
+  }
+
+  private renderScopePicker() {
+    const header = this.containerEl.createDiv({ cls: "study-assist-flashcard-header" });
+    const select = header.createEl("select", { cls: "dropdown" });
+    const scopes = this.plugin.availableScopes(this.allCards);
+    const current = scopeLabel(this.studyScope);
+    if (!scopes.some((scope) => scopeLabel(scope) === current)) scopes.push(this.studyScope);
+    scopes.forEach((scope, i) => {
+      const option = select.createEl("option", { text: scopeLabel(scope), value: String(i) });
+      if (scopeLabel(scope) === current) option.selected = true;
+    });
+    select.addEventListener("change", () => {
+      const scope = scopes[parseInt(select.value, 10)];
+      if (scope) void this.setScope(scope);
+    });
+
+    const modeSelect = header.createEl("select", { cls: "dropdown" });
+    STUDY_MODES.forEach(({ mode, label }) => {
+      const option = modeSelect.createEl("option", { text: label, value: mode });
+      if (mode === this.plugin.settings.studyMode) option.selected = true;
+    });
+    modeSelect.addEventListener("change", () => {
+      void (async () => {
+        this.plugin.settings.studyMode = modeSelect.value as StudyMode;
+        await this.plugin.saveSettings();
+        this.attempt = undefined;
+        this.showingAnswer = false;
+        this.render();
+      })();
+    });
   }
 
   private render() {
     this.containerEl.empty();
+    this.renderScopePicker();
 
-    const card = this.currentCard();
+    const item = this.currentItem();
     const cardEl = this.containerEl.createDiv({ cls: "study-assist-flashcard-card" });
+    if (item) this.renderAnswerArea(item);
     const controls = this.containerEl.createDiv({ cls: "study-assist-flashcard-controls" });
     const meta = this.containerEl.createDiv({ cls: "study-assist-flashcard-meta" });
 
-    if (!card) {
+    if (!item) {
       if (this.cards.length === 0) {
-        cardEl.setText("No flashcards yet. Generate some from PDF highlights.");
+        cardEl.setText(
+          this.allCards.length === 0
+            ? "No flashcards yet. Generate some from PDF highlights."
+            : "No flashcards in this selection."
+        );
         return;
       }
 
-      cardEl.setText("Congrats! You finished all flashcards.");
-      controls.empty();
-      const restartBtn = controls.createEl("button", { text: "Restart" });
-      restartBtn.addEventListener("click", () => {
-        void (async () => {
-          await this.plugin.resetProgress();
-          await this.reload();
-          this.render();
-        })();
-      });
+      cardEl.setText("All caught up for today. Come back tomorrow!");
+      const nextDue = this.plugin.nextDueDate(this.cards, this.progress);
+      if (nextDue) meta.setText(`Next review: ${nextDue.toLocaleDateString()}`);
       return;
     }
 
-    cardEl.setText(this.showingAnswer ? card.answer : card.question);
-    cardEl.addEventListener("click", () => {
-      this.showingAnswer = !this.showingAnswer;
-      this.render();
+    const card = item.card;
+    if (item.cloze !== undefined) {
+      const textEl = cardEl.createDiv();
+      renderCloze(textEl, card.question, item.cloze, this.showingAnswer);
+      if (this.showingAnswer && card.answer) {
+        cardEl.createDiv({ text: card.answer, cls: "study-assist-cloze-extra" });
+      }
+      cardEl.addClass("is-cloze");
+    } else {
+      cardEl.setText(this.showingAnswer ? card.answer : card.question);
+    }
+    const flipMode = this.plugin.settings.studyMode === "flip";
+    if (flipMode || this.attempt) {
+      cardEl.addEventListener("click", () => {
+        this.showingAnswer = !this.showingAnswer;
+        this.render();
+      });
+    }
+
+    RATINGS.forEach(({ rating, label }) => {
+      if (!flipMode && !this.attempt) return;
+      const preview = this.plugin.buildNextProgress(this.progress[item.key], rating);
+      const btn = controls.createEl("button", { cls: `study-assist-grade-${rating}` });
+      if (this.attempt?.suggested === rating) btn.addClass("is-suggested");
+      btn.createSpan({ text: label });
+      btn.createSpan({
+        text: formatInterval(preview.intervalDays),
+        cls: "study-assist-grade-interval",
+      });
+      btn.addEventListener("click", () => void this.handleGrade(rating));
     });
 
-    const againBtn = controls.createEl("button", { text: "Again" });
-    const goodBtn = controls.createEl("button", { text: "Good" });
+    if (card.sourcePath !== "manual") {
+      const sourceBtn = meta.createEl("button", {
+        text: "Show source",
+        cls: "study-assist-source-button",
+      });
+      sourceBtn.addEventListener("click", () => void this.plugin.revealCardSource(card));
+    }
 
-    againBtn.addEventListener("click", () => void this.handleGrade(false));
-    goodBtn.addEventListener("click", () => void this.handleGrade(true));
+    const remaining = this.remainingItems();
+    const newCount = remaining.filter((i) => !this.progress[i.key]).length;
+    meta.createSpan({
+      text: `Due ${remaining.length - newCount} · New ${newCount} · Total ${this.cards.length}`,
+    });
+  }
+}
 
-    const remaining = this.remainingCards().length;
-    meta.setText(`Remaining ${remaining} of ${this.cards.length}`);
+function setCardPlaceholders(
+  question: HTMLTextAreaElement,
+  answer: HTMLTextAreaElement,
+  type: CardType
+) {
+  if (type === "cloze") {
+    question.placeholder = "Text with {{c1::cloze}} deletions";
+    answer.placeholder = "Extra (optional)";
+  } else {
+    question.placeholder = "Question";
+    answer.placeholder = "Answer";
   }
 }
 
-class FlashcardManageView extends ItemView {
+function isValidCardContent(type: CardType, question: string, answer: string): boolean {
+  if (type !== "cloze") return !!question && !!answer;
+  if (clozeNumbers(question).length > 0) return true;
+  new Notice("Cloze text needs at least one {{c1::...}} deletion.");
+  return false;
+}
+
+class FlashcardManageView extends ItemView {
   private plugin: PdfFlashcardsPlugin;
   private cards: Flashcard[] = [];
+  private showingDuplicates = false;
+  private progress: Record<string, CardProgress> = {};
 
   constructor(leaf: WorkspaceLeaf, plugin: PdfFlashcardsPlugin) {
     super(leaf);
@@ -252,6 +1317,7 @@ class FlashcardManageView extends ItemView {
 
   private async reload() {
     this.cards = await this.plugin.loadAllCards();
+    this.progress = await this.plugin.loadProgress();
   }
 
   async refresh() {
@@ -259,33 +1325,57 @@ class FlashcardManageView extends ItemView {
     this.render();
   }
 
+  async showDuplicates(show: boolean) {
+    this.showingDuplicates = show;
+    await this.refresh();
+  }
+
   private render() {
     this.containerEl.empty();
 
     const header = this.containerEl.createDiv({ cls: "study-assist-manage-header" });
-    header.createEl("h3", { text: "Flashcards" });
+    header.createEl("h3", { text: this.showingDuplicates ? "Duplicate flashcards" : "Flashcards" });
+    const modeBtn = header.createEl("button", {
+      text: this.showingDuplicates ? "All flashcards" : "Find duplicates",
+    });
+    modeBtn.addEventListener("click", () => void this.showDuplicates(!this.showingDuplicates));
+
+    if (this.showingDuplicates) {
+      this.renderDuplicates();
+      return;
+    }
 
     const addForm = this.containerEl.createDiv({ cls: "study-assist-manage-add" });
     const qInput = addForm.createEl("textarea");
-    qInput.placeholder = "Question";
     const aInput = addForm.createEl("textarea");
-    aInput.placeholder = "Answer";
-    const addBtn = addForm.createEl("button", { text: "Add" });
+    const addActions = addForm.createDiv({ cls: "study-assist-manage-actions" });
+    const typeSelect = addActions.createEl("select", { cls: "dropdown" });
+    typeSelect.createEl("option", { text: "Basic", value: "basic" });
+    typeSelect.createEl("option", { text: "Cloze", value: "cloze" });
+    const addBtn = addActions.createEl("button", { text: "Add" });
+    const applyPlaceholders = () => {
+      setCardPlaceholders(qInput, aInput, typeSelect.value as CardType);
+    };
+    applyPlaceholders();
+    typeSelect.addEventListener("change", applyPlaceholders);
 
     addBtn.addEventListener("click", () => {
       void (async () => {
+        const type = typeSelect.value as CardType;
         const question = qInput.value.trim();
         const answer = aInput.value.trim();
-        if (!question || !answer) return;
+        if (!isValidCardContent(type, question, answer)) return;
 
         const now = new Date().toISOString();
         const newCard: Flashcard = {
           id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          type,
           sourcePath: "manual",
           highlightIds: [],
           question,
           answer,
           createdAt: now,
+          deck: defaultDeckFor("manual"),
         };
 
         this.cards.unshift(newCard);
@@ -305,20 +1395,43 @@ class FlashcardManageView extends ItemView {
 
     this.cards.forEach((card, index) => {
       const row = list.createDiv({ cls: "study-assist-manage-row" });
+      const type: CardType = card.type ?? "basic";
       const q = row.createEl("textarea");
       q.value = card.question;
       const a = row.createEl("textarea");
       a.value = card.answer;
+      setCardPlaceholders(q, a, type);
+      if (type === "cloze") row.addClass("is-cloze");
       const actions = row.createDiv({ cls: "study-assist-manage-actions" });
+      const meta = row.createDiv({ cls: "study-assist-manage-meta" });
+      const deckInput = meta.createEl("input", { type: "text" });
+      deckInput.placeholder = "Deck";
+      deckInput.value = this.plugin.deckFor(card);
+      const tagsInput = meta.createEl("input", { type: "text" });
+      tagsInput.placeholder = "Tags, comma separated";
+      tagsInput.value = (card.tags ?? []).join(", ");
       const saveBtn = actions.createEl("button", { text: "Save" });
       const deleteBtn = actions.createEl("button", { text: "Delete" });
+      if (card.unresolvedSource) {
+        actions.createSpan({
+          text: "Source unknown",
+          cls: "study-assist-source-warning",
+          attr: { title: "Generated without a resolvable source highlight." },
+        });
+      }
+      if (card.sourcePath !== "manual") {
+        const sourceBtn = actions.createEl("button", { text: "Source" });
+        sourceBtn.addEventListener("click", () => void this.plugin.revealCardSource(card));
+      }
 
       saveBtn.addEventListener("click", () => {
         void (async () => {
           const question = q.value.trim();
           const answer = a.value.trim();
-          if (!question || !answer) return;
-          this.cards[index] = { ...card, question, answer };
+          if (!isValidCardContent(type, question, answer)) return;
+          const deck = deckInput.value.trim() || defaultDeckFor(card.sourcePath);
+          const tags = parseTags(tagsInput.value);
+          this.cards[index] = { ...card, question, answer, deck, tags };
           await this.plugin.replaceAllCards(this.cards);
         })();
       });
@@ -333,247 +1446,3359 @@ class FlashcardManageView extends ItemView {
       });
     });
   }
+
+  private renderDuplicates() {
+    const list = this.containerEl.createDiv({ cls: "study-assist-manage-list" });
+    const groups = findDuplicateGroups(this.cards);
+    if (groups.length === 0) {
+      list.setText("No duplicate flashcards found.");
+      return;
+    }
+
+    groups.forEach((group, groupIndex) => {
+      const groupEl = list.createDiv({ cls: "study-assist-duplicate-group" });
+      groupEl.createEl("h4", { text: `${group.length} similar cards` });
+      let textFrom = group[0];
+      // Default to the card with the longest interval, i.e. the most review history.
+      let progressFrom = group.reduce((best, card) =>
+        this.intervalOf(card) > this.intervalOf(best) ? card : best
+      );
+
+      group.forEach((card) => {
+        const row = groupEl.createDiv({ cls: "study-assist-duplicate-row" });
+        const content = row.createDiv({ cls: "study-assist-duplicate-content" });
+        content.createDiv({ text: card.question, cls: "study-assist-duplicate-question" });
+        if (card.type !== "cloze") content.createDiv({ text: card.answer });
+        const source = card.sourcePath === "manual" ? "Manual" : card.sourcePath.split("/").pop();
+        content.createDiv({
+          text: `${source} · ${this.plugin.deckFor(card)} · ${this.describeProgress(card)}`,
+          cls: "study-assist-duplicate-meta",
+        });
+
+        const choices = row.createDiv({ cls: "study-assist-duplicate-choices" });
+        const choice = (label: string, name: string, checked: boolean, onPick: () => void) => {
+          const labelEl = choices.createEl("label");
+          const radio = labelEl.createEl("input", { type: "radio" });
+          radio.name = `${name}-${groupIndex}`;
+          radio.checked = checked;
+          radio.addEventListener("change", onPick);
+          labelEl.appendText(` ${label}`);
+        };
+        choice("Keep text", "text", card === textFrom, () => (textFrom = card));
+        choice("Keep progress", "progress", card === progressFrom, () => (progressFrom = card));
+      });
+
+      const actions = groupEl.createDiv({ cls: "study-assist-manage-actions" });
+      const mergeBtn = actions.createEl("button", { text: "Merge", cls: "mod-cta" });
+      mergeBtn.addEventListener("click", () => {
+        void (async () => {
+          await this.plugin.mergeDuplicateCards(group, textFrom, progressFrom);
+          new Notice(`Merged ${group.length} flashcards.`);
+          await this.refresh();
+        })();
+      });
+    });
+  }
+
+  private intervalOf(card: Flashcard): number {
+    const [item] = studyItemsFor([card]);
+    return item ? this.progress[item.key]?.intervalDays ?? -1 : -1;
+  }
+
+  private describeProgress(card: Flashcard): string {
+    const [item] = studyItemsFor([card]);
+    const progress = item ? this.progress[item.key] : undefined;
+    if (!progress?.lastReviewedAt) return "New";
+    const due = progress.nextDueAt ? dayKey(new Date(progress.nextDueAt)) : "—";
+    return `Interval ${formatInterval(progress.intervalDays)}, due ${due}`;
+  }
 }
 
-class PdfLeafController {
+class FlashcardStatsView extends ItemView {
   private plugin: PdfFlashcardsPlugin;
-  private leaf: WorkspaceLeaf;
-  private toolbar?: HTMLDivElement;
-  private observer?: MutationObserver;
-  private retryTimer?: number;
-  private attachedPdfViewer?: HTMLElement;
-  private selectionHandlerAttached = false;
-  private renderTimer?: number;
 
-  constructor(plugin: PdfFlashcardsPlugin, leaf: WorkspaceLeaf) {
+  constructor(leaf: WorkspaceLeaf, plugin: PdfFlashcardsPlugin) {
+    super(leaf);
     this.plugin = plugin;
-    this.leaf = leaf;
   }
 
-  init() {
-    this.ensureAttached();
+  getViewType() {
+    return STATS_VIEW_TYPE;
   }
 
-  destroy() {
-    this.toolbar?.remove();
-    this.observer?.disconnect();
-    if (this.retryTimer) window.clearTimeout(this.retryTimer);
+  getDisplayText() {
+    return "Flashcard statistics";
   }
 
-  ensureAttached(retries = 5) {
-    const container = this.leaf.view.containerEl;
-    if (!container) return;
+  getIcon() {
+    return "bar-chart-2";
+  }
 
-    if (!this.toolbar || !container.contains(this.toolbar)) {
-      this.toolbar = container.createDiv({ cls: "study-assist-pdf-toolbar" });
-      this.buildToolbar(this.toolbar);
-    }
+  async onOpen() {
+    this.containerEl.addClass("study-assist-stats");
+    await this.refresh();
+  }
 
-    const pdfViewer = this.findPdfViewer();
-    if (!pdfViewer) {
-      if (retries > 0) {
-        this.retryTimer = window.setTimeout(() => {
-          void this.ensureAttached(retries - 1);
-        }, 250);
-      }
-      return;
-    }
+  async onClose() {
+    this.containerEl.empty();
+  }
 
-    if (!this.selectionHandlerAttached) {
-      container.addEventListener("mouseup", (event) => {
-        const selection = window.getSelection();
-        if (!selection || selection.isCollapsed) return;
-        if (!selection.anchorNode) return;
-        if (!container.contains(selection.anchorNode)) return;
-        event.preventDefault();
-      });
-      this.selectionHandlerAttached = true;
-    }
+  async refresh() {
+    const cards = await this.plugin.loadAllCards();
+    const progress = await this.plugin.loadProgress();
+    const log = await this.plugin.loadReviewLog();
+    this.render(cards, progress, log);
+  }
 
-    if (this.observer && this.attachedPdfViewer !== pdfViewer) {
-      this.observer.disconnect();
-      this.observer = undefined;
-      this.attachedPdfViewer = undefined;
-    }
+  private render(
+    cards: Flashcard[],
+    progress: Record<string, CardProgress>,
+    log: ReviewLogEntry[]
+  ) {
+    this.containerEl.empty();
+    this.containerEl.createEl("h3", { text: "Statistics" });
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const days = (offset: number) => {
+      const date = new Date(today.getTime());
+      date.setDate(today.getDate() + offset);
+      return dayKey(date);
+    };
 
-    if (!this.observer) {
-      this.observer = new MutationObserver(() => {
-        this.scheduleRenderHighlights();
-      });
-      this.observer.observe(pdfViewer, { childList: true, subtree: true });
-      this.attachedPdfViewer = pdfViewer;
-    }
+    const reviewsPerDay = new Map<string, number>();
+    log.forEach((entry) => {
+      const key = dayKey(new Date(entry.reviewedAt));
+      reviewsPerDay.set(key, (reviewsPerDay.get(key) ?? 0) + 1);
+    });
+    const past = Array.from({ length: 30 }, (_, i) => days(i - 29));
+    this.renderBars(
+      "Reviews per day (last 30 days)",
+      past.map((key) => ({ label: key, value: reviewsPerDay.get(key) ?? 0 }))
+    );
 
-    this.scheduleRenderHighlights();
-  }
+    const duePerDay = new Map<string, number>();
+    const todayKey = days(0);
+    studyItemsFor(cards).forEach((item) => {
+      const due = progress[item.key]?.nextDueAt;
+      if (!due) return;
+      const key = dayKey(new Date(due));
+      const bucket = key < todayKey ? todayKey : key;
+      duePerDay.set(bucket, (duePerDay.get(bucket) ?? 0) + 1);
+    });
+    const future = Array.from({ length: 30 }, (_, i) => days(i));
+    this.renderBars(
+      "Due forecast (next 30 days)",
+      future.map((key) => ({ label: key, value: duePerDay.get(key) ?? 0 }))
+    );
 
-  private buildToolbar(toolbar: HTMLDivElement) {
-    const buttons: { color: HighlightColor; label: string }[] = [
-      { color: "yellow", label: "Yellow" },
-      { color: "green", label: "Green" },
-      { color: "blue", label: "Blue" },
-      { color: "flashcard", label: "Flashcard" },
-    ];
+    const retention = this.containerEl.createDiv({ cls: "study-assist-stats-section" });
+    retention.createEl("h4", { text: "True retention" });
+    const monthAgo = new Date(today.getTime());
+    monthAgo.setDate(today.getDate() - 29);
+    const recent = log.filter((entry) => new Date(entry.reviewedAt) >= monthAgo);
+    const retentionRow = retention.createDiv({ cls: "study-assist-stats-kpis" });
+    [
+      { label: "Last 30 days", entries: recent },
+      { label: "All time", entries: log },
+    ].forEach(({ label, entries }) => {
+      const kpi = retentionRow.createDiv({ cls: "study-assist-stats-kpi" });
+      kpi.createDiv({ text: formatRetention(entries), cls: "study-assist-stats-kpi-value" });
+      kpi.createDiv({ text: label, cls: "study-assist-stats-kpi-label" });
+    });
 
-    buttons.forEach(({ color, label }) => {
-      const btn = toolbar.createEl("button");
-      const swatch = btn.createSpan({ cls: "study-assist-color-swatch" });
-      swatch.style.background = COLOR_MAP[color];
-      btn.createSpan({ text: label });
+    this.renderSources(cards, progress, log, todayKey);
+  }
 
-      btn.addEventListener("click", () => {
-        void (async () => {
-          const selection = window.getSelection();
-          if (!selection || selection.isCollapsed) {
-            new Notice("Select text in the PDF first.");
-            return;
-          }
+  private renderBars(title: string, data: { label: string; value: number }[]) {
+    const section = this.containerEl.createDiv({ cls: "study-assist-stats-section" });
+    const total = data.reduce((sum, d) => sum + d.value, 0);
+    section.createEl("h4", { text: `${title} · ${total}` });
+    const chart = section.createDiv({ cls: "study-assist-stats-bars" });
+    const max = Math.max(1, ...data.map((d) => d.value));
+    data.forEach(({ label, value }) => {
+      const bar = chart.createDiv({ cls: "study-assist-stats-bar" });
+      bar.style.height = `${(value / max) * 100}%`;
+      bar.setAttr("aria-label", `${label}: ${value}`);
+    });
+  }
 
-          const pdfViewer = this.findPdfViewer();
-          if (!pdfViewer) {
-            new Notice("PDF viewer not found.");
-            return;
-          }
+  private renderSources(
+    cards: Flashcard[],
+    progress: Record<string, CardProgress>,
+    log: ReviewLogEntry[],
+    todayKey: string
+  ) {
+    const section = this.containerEl.createDiv({ cls: "study-assist-stats-section" });
+    section.createEl("h4", { text: "By source" });
+
+    const sourceByCard = new Map(cards.map((card) => [card.id, card.sourcePath]));
+    const sources = new Map<string, { cards: number; due: number; reviews: ReviewLogEntry[] }>();
+    const bucket = (sourcePath: string) => {
+      let entry = sources.get(sourcePath);
+      if (!entry) {
+        entry = { cards: 0, due: 0, reviews: [] };
+        sources.set(sourcePath, entry);
+      }
+      return entry;
+    };
 
-          const highlight = this.buildHighlightFromSelection(selection, pdfViewer, color);
-          if (!highlight) {
-            new Notice("Could not capture selection.");
-            return;
-          }
+    cards.forEach((card) => {
+      bucket(card.sourcePath).cards += 1;
+    });
+    studyItemsFor(cards).forEach((item) => {
+      const due = progress[item.key]?.nextDueAt;
+      if (due && dayKey(new Date(due)) <= todayKey) bucket(item.card.sourcePath).due += 1;
+    });
+    log.forEach((review) => {
+      const sourcePath = sourceByCard.get(cardIdForProgressKey(review.cardId));
+      bucket(sourcePath ?? "Deleted cards").reviews.push(review);
+    });
 
-          const file = this.getPdfFile();
-          if (!file) {
-            new Notice("No PDF file associated with this view.");
-            return;
-          }
+    if (sources.size === 0) {
+      section.createDiv({ text: "No flashcards yet." });
+      return;
+    }
 
-          await this.plugin.saveHighlight(file.path, highlight);
-          selection.removeAllRanges();
-          await this.renderHighlights();
-        })();
+    const table = section.createEl("table", { cls: "study-assist-stats-table" });
+    const head = table.createEl("tr");
+    ["Source", "Cards", "Due", "Reviews", "Retention"].forEach((text) =>
+      head.createEl("th", { text })
+    );
+    Array.from(sources.entries())
+      .sort((a, b) => b[1].cards - a[1].cards)
+      .forEach(([sourcePath, entry]) => {
+        const row = table.createEl("tr");
+        const name = sourcePath.split("/").pop() ?? sourcePath;
+        row.createEl("td", { text: name, attr: { title: sourcePath } });
+        row.createEl("td", { text: String(entry.cards) });
+        row.createEl("td", { text: String(entry.due) });
+        row.createEl("td", { text: String(entry.reviews.length) });
+        row.createEl("td", { text: formatRetention(entry.reviews) });
       });
+  }
+}
+
+interface ReviewItem {
+  card: Flashcard;
+  /** A saved or earlier generated card this one is nearly identical to. */
+  duplicateOf?: Flashcard;
+  rejected: boolean;
+  selected: boolean;
+  busy: boolean;
+}
+
+class GeneratedCardsReviewModal extends Modal {
+  private items: ReviewItem[];
+  private regenerate: (card: Flashcard) => Promise<Flashcard | null>;
+  private onSave: (accepted: Flashcard[]) => Promise<void>;
+  private saved = false;
+  private saving = false;
+  private saveBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    cards: Flashcard[],
+    regenerate: (card: Flashcard) => Promise<Flashcard | null>,
+    onSave: (accepted: Flashcard[]) => Promise<void>,
+    duplicates = new Map<string, Flashcard>()
+  ) {
+    super(app);
+    // Duplicates start out rejected; Restore keeps them anyway.
+    this.items = cards.map((card) => {
+      const duplicateOf = duplicates.get(card.id);
+      return { card, duplicateOf, rejected: !!duplicateOf, selected: false, busy: false };
     });
+    this.regenerate = regenerate;
+    this.onSave = onSave;
   }
 
-  private findPdfViewer(): HTMLElement | null {
-    const container = this.leaf.view.containerEl;
-    if (!container) return null;
-    return (
-      container.querySelector<HTMLElement>(".pdf-viewer") ??
-      container.querySelector<HTMLElement>(".pdfViewer") ??
-      container.querySelector<HTMLElement>(".pdf-viewer-container")
-    );
+  onOpen() {
+    this.modalEl.addClass("study-assist-review-modal");
+    this.render();
   }
 
-  private getPdfFile(): TFile | null {
-    const view = this.leaf.view;
-    if (view instanceof FileView && view.file instanceof TFile) return view.file;
-    return null;
+  onClose() {
+    this.contentEl.empty();
+    if (!this.saved && !this.saving) new Notice("Generated flashcards discarded.");
   }
 
-  private buildHighlightFromSelection(
-    selection: Selection,
-    pdfViewer: HTMLElement,
-    color: HighlightColor
-  ): Highlight | null {
-    if (selection.rangeCount === 0) return null;
-    const range = selection.getRangeAt(0);
-    const rects = Array.from(range.getClientRects()).filter(
-      (rect) => rect.width > 1 && rect.height > 1
-    );
-    if (rects.length === 0) return null;
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: `Review ${this.items.length} generated flashcards` });
 
-    const pages = Array.from(pdfViewer.querySelectorAll<HTMLElement>(".page"));
-    if (pages.length === 0) return null;
+    const list = contentEl.createDiv({ cls: "study-assist-review-list" });
+    this.items.forEach((item) => this.renderItem(list, item));
 
-    const pageMap = new Map<number, HighlightRect[]>();
+    const accepted = this.items.filter((item) => !item.rejected);
+    const selected = this.items.filter((item) => item.selected && !item.rejected);
+    const actions = contentEl.createDiv({ cls: "study-assist-modal-actions" });
 
-    rects.forEach((rect) => {
-      const centerX = rect.left + rect.width / 2;
-      const centerY = rect.top + rect.height / 2;
+    const mergeBtn = actions.createEl("button", { text: `Merge selected (${selected.length})` });
+    mergeBtn.disabled = selected.length < 2;
+    mergeBtn.addEventListener("click", () => this.mergeSelected());
 
-      const pageEl = pages.find((page) => {
-        const box = page.getBoundingClientRect();
-        return (
-          centerX >= box.left &&
-          centerX <= box.right &&
-          centerY >= box.top &&
-          centerY <= box.bottom
-        );
-      });
+    const saveBtn = actions.createEl("button", {
+      text: `Save ${accepted.length} flashcard${accepted.length === 1 ? "" : "s"}`,
+      cls: "mod-cta",
+    });
+    this.saveBtn = saveBtn;
+    this.updateSaveButton();
+    saveBtn.addEventListener("click", () => {
+      void (async () => {
+        this.saving = true;
+        this.updateSaveButton();
+        try {
+          await this.onSave(this.items.filter((item) => !item.rejected).map((item) => item.card));
+          this.saved = true;
+          this.close();
+        } catch (err) {
+          // Keep the modal open so the accepted cards aren't lost.
+          console.error(err);
+          new Notice(`Failed to save flashcards: ${(err as Error).message}`, 10000);
+        }
+        this.saving = false;
+        this.updateSaveButton();
+      })();
+    });
 
-      if (!pageEl) return;
-      const pageNumber = parseInt(pageEl.dataset.pageNumber ?? "1", 10) - 1;
-      const box = pageEl.getBoundingClientRect();
-      const norm: HighlightRect = {
-        x: (rect.left - box.left) / box.width,
-        y: (rect.top - box.top) / box.height,
-        w: rect.width / box.width,
-        h: rect.height / box.height,
-      };
+    const cancelBtn = actions.createEl("button", { text: "Discard all" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
 
-      if (!pageMap.has(pageNumber)) pageMap.set(pageNumber, []);
-      pageMap.get(pageNumber)?.push(norm);
+  private renderItem(list: HTMLElement, item: ReviewItem) {
+    const row = list.createDiv({ cls: "study-assist-review-row" });
+    if (item.rejected) row.addClass("is-rejected");
+
+    const select = row.createEl("input", { type: "checkbox" });
+    select.checked = item.selected;
+    select.disabled = item.rejected;
+    select.setAttr("aria-label", "Select for merge");
+    select.addEventListener("change", () => {
+      item.selected = select.checked;
+      this.render();
     });
 
-    if (pageMap.size === 0) return null;
+    const type: CardType = item.card.type ?? "basic";
+    const question = row.createEl("textarea");
+    question.value = item.card.question;
+    const answer = row.createEl("textarea");
+    answer.value = item.card.answer;
+    setCardPlaceholders(question, answer, type);
+    question.disabled = item.rejected || item.busy;
+    answer.disabled = item.rejected || item.busy;
+    question.addEventListener("input", () => {
+      item.card = { ...item.card, question: question.value };
+      this.updateSaveButton();
+    });
+    answer.addEventListener("input", () => {
+      item.card = { ...item.card, answer: answer.value };
+      this.updateSaveButton();
+    });
 
-    const pagesArr: HighlightPage[] = Array.from(pageMap.entries()).map(
-      ([page, rectsForPage]) => ({ page, rects: rectsForPage })
-    );
+    const actions = row.createDiv({ cls: "study-assist-manage-actions" });
+    if (item.card.unresolvedSource) {
+      actions.createSpan({
+        text: "Source unknown",
+        cls: "study-assist-source-warning",
+        attr: { title: "The model cited highlights that don't exist in this batch." },
+      });
+    }
+    if (item.duplicateOf) {
+      actions.createSpan({
+        text: "Duplicate",
+        cls: "study-assist-source-warning",
+        attr: { title: `Similar to: ${item.duplicateOf.question}` },
+      });
+    }
+    const rejectBtn = actions.createEl("button", { text: item.rejected ? "Restore" : "Reject" });
+    rejectBtn.addEventListener("click", () => {
+      item.rejected = !item.rejected;
+      item.selected = false;
+      this.render();
+    });
 
-    return {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      color,
-      isFlashcard: color === "flashcard",
-      text: selection.toString(),
-      createdAt: new Date().toISOString(),
-      pages: pagesArr,
+    const regenerateBtn = actions.createEl("button", {
+      text: item.busy ? "Working..." : "Regenerate",
+    });
+    regenerateBtn.disabled = item.rejected || item.busy;
+    regenerateBtn.addEventListener("click", () => {
+      void (async () => {
+        item.busy = true;
+        this.render();
+        try {
+          const replacement = await this.regenerate(item.card);
+          if (replacement) item.card = replacement;
+          else new Notice("The model did not return a replacement card.");
+        } catch (err) {
+          console.error(err);
+          new Notice("Failed to regenerate flashcard.");
+        }
+        item.busy = false;
+        this.render();
+      })();
+    });
+  }
+
+  /** Save stays disabled while a card is busy or an accepted card has no question or answer. */
+  private updateSaveButton() {
+    if (!this.saveBtn) return;
+    const accepted = this.items.filter((item) => !item.rejected);
+    const incomplete = accepted.some((item) => {
+      const question = item.card.question.trim();
+      if (item.card.type === "cloze") return clozeNumbers(question).length === 0;
+      return !question || !item.card.answer.trim();
+    });
+    this.saveBtn.disabled =
+      this.saving ||
+      accepted.length === 0 ||
+      incomplete ||
+      this.items.some((item) => item.busy);
+  }
+
+  /** Folds the selected cards into the first one, keeping every source highlight. */
+  private mergeSelected() {
+    const selected = this.items.filter((item) => item.selected && !item.rejected);
+    if (selected.length < 2) return;
+    const [first, ...rest] = selected;
+    const cards = selected.map((item) => item.card);
+    first.card = {
+      ...first.card,
+      answer: cards
+        .map((card) => card.answer.trim())
+        .filter(Boolean)
+        .join("\n"),
+      highlightIds: Array.from(new Set(cards.flatMap((card) => card.highlightIds))),
+      unresolvedSource: cards.some((card) => card.unresolvedSource) || undefined,
+      distractors: undefined,
     };
+    if (first.card.type !== "cloze") {
+      first.card.question = cards.map((card) => card.question.trim()).join(" / ");
+    }
+    first.selected = false;
+    this.items = this.items.filter((item) => !rest.includes(item));
+    this.render();
   }
+}
 
-  private scheduleRenderHighlights() {
-    if (this.renderTimer) window.clearTimeout(this.renderTimer);
-    this.renderTimer = window.setTimeout(() => {
-      void this.renderHighlights();
-    }, 150);
+class DeleteHighlightModal extends Modal {
+  private linkedCards: Flashcard[];
+  private onChoose: (deleteCards: boolean) => void;
+
+  constructor(app: App, linkedCards: Flashcard[], onChoose: (deleteCards: boolean) => void) {
+    super(app);
+    this.linkedCards = linkedCards;
+    this.onChoose = onChoose;
   }
 
-  private async renderHighlights() {
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Delete highlight" });
+    const count = this.linkedCards.length;
+    contentEl.createEl("p", {
+      text: `${count} flashcard${count === 1 ? " was" : "s were"} generated from this highlight.`,
+    });
+
+    const actions = contentEl.createDiv({ cls: "study-assist-modal-actions" });
+    const keepBtn = actions.createEl("button", { text: "Delete highlight only" });
+    const deleteBtn = actions.createEl("button", {
+      text: `Delete highlight and ${count} flashcard${count === 1 ? "" : "s"}`,
+      cls: "mod-warning",
+    });
+    const cancelBtn = actions.createEl("button", { text: "Cancel" });
+
+    keepBtn.addEventListener("click", () => {
+      this.close();
+      this.onChoose(false);
+    });
+    deleteBtn.addEventListener("click", () => {
+      this.close();
+      this.onChoose(true);
+    });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class ConfirmModal extends Modal {
+  private title: string;
+  private message: string;
+  private confirmLabel: string;
+  private onResult: (confirmed: boolean) => void;
+  private cancelLabel: string;
+  private confirmed = false;
+
+  constructor(
+    app: App,
+    title: string,
+    message: string,
+    confirmLabel: string,
+    onResult: (confirmed: boolean) => void,
+    cancelLabel = "Cancel"
+  ) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmLabel = confirmLabel;
+    this.onResult = onResult;
+    this.cancelLabel = cancelLabel;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: this.title });
+    contentEl.createEl("p", { text: this.message });
+
+    const actions = contentEl.createDiv({ cls: "study-assist-modal-actions" });
+    const confirmBtn = actions.createEl("button", { text: this.confirmLabel, cls: "mod-warning" });
+    const cancelBtn = actions.createEl("button", { text: this.cancelLabel });
+    confirmBtn.addEventListener("click", () => {
+      this.confirmed = true;
+      this.close();
+    });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResult(this.confirmed);
+  }
+}
+
+class VaultFileModal<T extends TAbstractFile = TFile> extends FuzzySuggestModal<T> {
+  private files: T[];
+  private onChoose: (file: T) => void;
+
+  constructor(app: App, files: T[], onChoose: (file: T) => void, placeholder: string) {
+    super(app);
+    this.files = files;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): T[] {
+    return this.files;
+  }
+
+  getItemText(file: T): string {
+    return file.path;
+  }
+
+  onChooseItem(file: T) {
+    this.onChoose(file);
+  }
+}
+
+type ImportField = "ignore" | "question" | "answer" | "deck" | "tags" | "type";
+
+/** What to do with an imported card that nearly matches an existing one. */
+type DuplicateMode = "skip" | "update" | "keep";
+
+interface ImportOptions {
+  /** Field for each column, by column index. */
+  mapping: ImportField[];
+  skipFirstRow: boolean;
+  defaultDeck: string;
+  duplicates: DuplicateMode;
+}
+
+const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "ignore", label: "Ignore" },
+  { field: "question", label: "Question / cloze text" },
+  { field: "answer", label: "Answer" },
+  { field: "deck", label: "Deck" },
+  { field: "tags", label: "Tags" },
+  { field: "type", label: "Card type" },
+];
+
+function guessImportField(name: string): ImportField {
+  const normalized = name.trim().toLowerCase();
+  if (["front", "question", "text", "q"].includes(normalized)) return "question";
+  if (["back", "answer", "back extra", "a"].includes(normalized)) return "answer";
+  if (normalized === "deck") return "deck";
+  if (normalized === "tags") return "tags";
+  if (["note type", "notetype", "type"].includes(normalized)) return "type";
+  return "ignore";
+}
+
+class ImportCardsModal extends Modal {
+  private fileName: string;
+  private data: DelimitedFile;
+  private options: ImportOptions;
+  private onImport: (options: ImportOptions) => Promise<void>;
+
+  constructor(
+    app: App,
+    fileName: string,
+    data: DelimitedFile,
+    onImport: (options: ImportOptions) => Promise<void>
+  ) {
+    super(app);
+    this.fileName = fileName;
+    this.data = data;
+    this.onImport = onImport;
+
+    const width = Math.max(...data.rows.map((row) => row.length));
+    // Without Anki headers, a first row of known column names is taken as a header.
+    const firstRow = data.rows[0] ?? [];
+    const headerRow = !data.columns && firstRow.some((cell) => guessImportField(cell) !== "ignore");
+    const names = data.columns ?? (headerRow ? firstRow : []);
+    const mapping = Array.from({ length: width }, (_, index) =>
+      guessImportField(names[index] ?? "")
+    );
+    if (data.deckColumn !== undefined) mapping[data.deckColumn] = "deck";
+    if (data.tagsColumn !== undefined) mapping[data.tagsColumn] = "tags";
+    if (data.typeColumn !== undefined) mapping[data.typeColumn] = "type";
+    if (!mapping.includes("question")) {
+      const free = mapping
+        .map((field, index) => (field === "ignore" ? index : -1))
+        .filter((index) => index >= 0);
+      if (free[0] !== undefined) mapping[free[0]] = "question";
+      if (free[1] !== undefined && !mapping.includes("answer")) mapping[free[1]] = "answer";
+    }
+    this.options = {
+      mapping,
+      skipFirstRow: headerRow,
+      defaultDeck: "Imported",
+      duplicates: "skip",
+    };
+  }
+
+  onOpen() {
+    this.modalEl.addClass("study-assist-import-modal");
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl, options, data } = this;
+    contentEl.empty();
+    const rowCount = data.rows.length - (options.skipFirstRow ? 1 : 0);
+    contentEl.createEl("h3", { text: `Import ${rowCount} rows from ${this.fileName}` });
+
+    new Setting(contentEl).setName("First row is a header").addToggle((toggle) =>
+      toggle.setValue(options.skipFirstRow).onChange((value) => {
+        options.skipFirstRow = value;
+        this.render();
+      })
+    );
+
+    const sample = data.rows[options.skipFirstRow ? 1 : 0] ?? [];
+    options.mapping.forEach((field, index) => {
+      const name =
+        data.columns?.[index] ?? (options.skipFirstRow ? data.rows[0][index] : undefined);
+      new Setting(contentEl)
+        .setName(name ? `Column ${index + 1}: ${name}` : `Column ${index + 1}`)
+        .setDesc(sample[index] ? `e.g. ${sample[index].slice(0, 80)}` : "")
+        .addDropdown((dropdown) => {
+          IMPORT_FIELDS.forEach((option) => dropdown.addOption(option.field, option.label));
+          dropdown.setValue(field).onChange((value) => {
+            options.mapping[index] = value as ImportField;
+            this.render();
+          });
+        });
+    });
+
+    new Setting(contentEl)
+      .setName("Deck for rows without one")
+      .addText((text) =>
+        text.setValue(options.defaultDeck).onChange((value) => {
+          options.defaultDeck = value.trim();
+        })
+      );
+
+    new Setting(contentEl).setName("Duplicates").addDropdown((dropdown) =>
+      dropdown
+        .addOption("skip", "Skip cards that already exist")
+        .addOption("update", "Update the existing card")
+        .addOption("keep", "Import anyway")
+        .setValue(options.duplicates)
+        .onChange((value) => {
+          options.duplicates = value as DuplicateMode;
+        })
+    );
+
+    const actions = contentEl.createDiv({ cls: "study-assist-modal-actions" });
+    const importBtn = actions.createEl("button", { text: "Import", cls: "mod-cta" });
+    importBtn.disabled = !options.mapping.includes("question");
+    importBtn.addEventListener("click", () => {
+      void (async () => {
+        this.close();
+        await this.onImport(options);
+      })();
+    });
+    const cancelBtn = actions.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+}
+
+class HighlightNoteModal extends Modal {
+  private highlight: Highlight;
+  private onSave: (note: string) => void;
+
+  constructor(app: App, highlight: Highlight, onSave: (note: string) => void) {
+    super(app);
+    this.highlight = highlight;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Highlight note" });
+    contentEl.createEl("blockquote", {
+      text: this.highlight.text.replace(/\s+/g, " ").trim(),
+      cls: "study-assist-note-quote",
+    });
+
+    const input = contentEl.createEl("textarea", { cls: "study-assist-note-input" });
+    input.placeholder = "Markdown note";
+    input.value = this.highlight.note ?? "";
+
+    const actions = contentEl.createDiv({ cls: "study-assist-modal-actions" });
+    const saveBtn = actions.createEl("button", { text: "Save", cls: "mod-cta" });
+    const cancelBtn = actions.createEl("button", { text: "Cancel" });
+
+    saveBtn.addEventListener("click", () => {
+      this.close();
+      this.onSave(input.value.trim());
+    });
+    cancelBtn.addEventListener("click", () => this.close());
+    window.setTimeout(() => input.focus(), 0);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+interface PdfTextItem {
+  str: string;
+  height: number;
+  hasEOL?: boolean;
+  transform?: number[];
+  width?: number;
+}
+
+/** Maps between PDF user space and the page as rendered at the given scale. */
+interface PdfViewport {
+  width: number;
+  height: number;
+  convertToPdfPoint(x: number, y: number): number[];
+  convertToViewportPoint(x: number, y: number): number[];
+}
+
+interface PdfPage {
+  getTextContent(): Promise<{ items: PdfTextItem[] }>;
+  getViewport(options: { scale: number }): PdfViewport;
+}
+
+interface PdfOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items?: PdfOutlineNode[];
+}
+
+/** The part of the PDF.js document proxy used to read page text and the outline. */
+interface PdfDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPage>;
+  getOutline(): Promise<PdfOutlineNode[] | null>;
+  getDestination(name: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
+  destroy(): Promise<void>;
+}
+
+interface PageText {
+  text: string;
+  /** Lines set noticeably larger than the body text, with their offset in `text`. */
+  headings: { offset: number; text: string }[];
+}
+
+const MAX_STORED_CONTEXT = 1500;
+
+function buildPageText(items: PdfTextItem[]): PageText {
+  // Marked-content entries in the item list carry no text.
+  const textItems = items.filter((item) => typeof item.str === "string");
+  const heights = textItems
+    .filter((item) => item.str.trim())
+    .map((item) => item.height)
+    .sort((a, b) => a - b);
+  const bodyHeight = heights[Math.floor(heights.length / 2)] ?? 0;
+
+  let text = "";
+  const headings: PageText["headings"] = [];
+  let headingEnd = -1;
+  textItems.forEach((item) => {
+    let piece = item.str.replace(/\s+/g, " ");
+    if (text === "" || text.endsWith(" ")) piece = piece.replace(/^ /, "");
+    const trimmed = piece.trim();
+    const isHeading =
+      bodyHeight > 0 &&
+      item.height >= bodyHeight * 1.25 &&
+      trimmed.length > 0 &&
+      /\p{L}/u.test(trimmed);
+    if (isHeading) {
+      const last = headings[headings.length - 1];
+      // Headings are often split into several items on the same line.
+      if (last && headingEnd >= text.trimEnd().length) last.text = `${last.text} ${trimmed}`.trim();
+      else headings.push({ offset: text.length, text: trimmed });
+    }
+    text += piece + (item.hasEOL && !piece.endsWith(" ") ? " " : "");
+    if (isHeading) headingEnd = text.trimEnd().length;
+  });
+  return {
+    text,
+    headings: headings.filter((heading) => heading.text.length <= 120),
+  };
+}
+
+function joinPageTexts(pages: PageText[]): PageText {
+  let text = "";
+  const headings: PageText["headings"] = [];
+  pages.forEach((page) => {
+    if (text && !text.endsWith(" ")) text += " ";
+    headings.push(...page.headings.map((h) => ({ offset: h.offset + text.length, text: h.text })));
+    text += page.text;
+  });
+  return { text, headings };
+}
+
+/** Finds the highlight in the page text, falling back to its first words. */
+function locateHighlight(pageText: string, highlight: string): { start: number; end: number } | null {
+  const needle = highlight.replace(/\s+/g, " ").trim();
+  if (!needle) return null;
+  let start = pageText.indexOf(needle);
+  if (start >= 0) return { start, end: start + needle.length };
+  // Hyphenation and line joins can differ between the selection and the text content.
+  start = pageText.indexOf(needle.slice(0, 40));
+  if (start < 0) return null;
+  return { start, end: Math.min(pageText.length, start + needle.length) };
+}
+
+/** Flattens the PDF outline into titles with their 0-based page index. */
+async function loadOutline(doc: PdfDocument): Promise<{ title: string; pageIndex: number }[]> {
+  const entries: { title: string; pageIndex: number }[] = [];
+  const visit = async (nodes: PdfOutlineNode[]) => {
+    for (const node of nodes) {
+      try {
+        const dest = typeof node.dest === "string" ? await doc.getDestination(node.dest) : node.dest;
+        const ref = Array.isArray(dest) ? dest[0] : null;
+        if (ref !== null && ref !== undefined) {
+          const pageIndex = typeof ref === "number" ? ref : await doc.getPageIndex(ref);
+          entries.push({ title: node.title.trim(), pageIndex });
+        }
+      } catch (err) {
+        console.error(err);
+      }
+      await visit(node.items ?? []);
+    }
+  };
+  await visit((await doc.getOutline()) ?? []);
+  return entries;
+}
+
+/** Cuts context to about `chars` characters at a word boundary. */
+function trimContext(text: string, chars: number, keepEnd: boolean): string {
+  if (text.length <= chars) return text;
+  if (keepEnd) {
+    const slice = text.slice(text.length - chars);
+    return `…${slice.slice(slice.indexOf(" ") + 1)}`;
+  }
+  const slice = text.slice(0, chars);
+  const cut = slice.lastIndexOf(" ");
+  return `${cut > 0 ? slice.slice(0, cut) : slice}…`;
+}
+
+function formatHighlightContext(context: HighlightContext, chars: number): string {
+  const lines: string[] = [];
+  if (context.heading) lines.push(`Section: ${context.heading}`);
+  const before = trimContext(context.before, chars, true);
+  const after = trimContext(context.after, chars, false);
+  if (before || after) lines.push(`Surrounding text: "${before} [HIGHLIGHT] ${after}"`.replace(/ +/g, " "));
+  return lines.map((line) => `\n   ${line}`).join("");
+}
+
+interface MarkdownHeading {
+  text: string;
+  level: number;
+  start: number;
+  end: number;
+}
+
+/** A paragraph, list item, quote, table or code block of a note, as offsets into its text. */
+interface MarkdownBlock {
+  kind: "text" | "other" | "code";
+  start: number;
+  end: number;
+  blockId?: string;
+  heading?: MarkdownHeading;
+}
+
+/** Text taken from a note for generation, with the block it belongs to. */
+interface MarkdownPassage {
+  text: string;
+  start: number;
+  end: number;
+  block: MarkdownBlock;
+}
+
+const BLOCK_ID_LINE = /^\^([A-Za-z0-9-]+)\s*$/;
+const TRAILING_BLOCK_ID = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Splits a note into blocks the way Obsidian addresses them with `^id` links.
+ * Paragraphs and list items carry their id at the end of their last line;
+ * quotes, tables and code blocks carry it on the line after.
+ */
+function parseMarkdownBlocks(content: string): {
+  blocks: MarkdownBlock[];
+  headings: MarkdownHeading[];
+} {
+  const blocks: MarkdownBlock[] = [];
+  const headings: MarkdownHeading[] = [];
+  const lines = content.split("\n");
+  let current: MarkdownBlock | null = null;
+  let heading: MarkdownHeading | undefined;
+  let fence: string | null = null;
+  let offset = 0;
+  let index = 0;
+  if (lines[0]?.trimEnd() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trimEnd() === "---");
+    if (end > 0) {
+      for (; index <= end; index++) offset += lines[index].length + 1;
+    }
+  }
+
+  const open = (kind: MarkdownBlock["kind"], start: number, end: number) => {
+    current = { kind, start, end, heading };
+    blocks.push(current);
+  };
+  for (; index < lines.length; index++) {
+    const line = lines[index].replace(/\r$/, "");
+    const start = offset;
+    const end = start + line.length;
+    offset += lines[index].length + 1;
+    const block = current as MarkdownBlock | null;
+
+    if (fence) {
+      if (block) block.end = end;
+      if (line.trim().startsWith(fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      open("code", start, end);
+      continue;
+    }
+    if (!line.trim()) {
+      current = null;
+      continue;
+    }
+    const headingMatch = line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (headingMatch) {
+      heading = { text: headingMatch[2], level: headingMatch[1].length, start, end };
+      headings.push(heading);
+      current = null;
+      continue;
+    }
+    const idLine = line.match(BLOCK_ID_LINE);
+    if (idLine && block) {
+      block.blockId = idLine[1];
+      current = null;
+      continue;
+    }
+    if (/^\s*(?:[-*+]|\d+[.)])\s/.test(line)) {
+      open("text", start, end);
+    } else if (/^\s*[>|]/.test(line)) {
+      if (block && block.kind === "other") block.end = end;
+      else open("other", start, end);
+    } else if (block) {
+      block.end = end;
+    } else {
+      open("text", start, end);
+    }
+    const last = current as MarkdownBlock | null;
+    if (last?.kind === "text") last.blockId = line.match(TRAILING_BLOCK_ID)?.[1];
+  }
+  return { blocks, headings };
+}
+
+/** Drops highlight, list, quote and fence markers and block ids so the model sees plain text. */
+function cleanMarkdownText(text: string): string {
+  return text
+    .replace(/^\s*(?:```|~~~).*$/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+[.)]|>)(?:\s+|$)/gm, "")
+    .replace(/==/g, "")
+    .replace(/(^|\s)\^[A-Za-z0-9-]+\s*$/gm, "")
+    .trim();
+}
+
+/** `==highlighted==` spans outside code blocks. */
+function findMarkdownHighlights(content: string, blocks: MarkdownBlock[]): MarkdownPassage[] {
+  const passages: MarkdownPassage[] = [];
+  blocks
+    .filter((block) => block.kind !== "code")
+    .forEach((block) => {
+      const text = content.slice(block.start, block.end);
+      for (const match of text.matchAll(/==(?=\S)([^\n]*?\S)==/g)) {
+        const start = block.start + (match.index ?? 0);
+        passages.push({
+          text: cleanMarkdownText(match[1]),
+          start,
+          end: start + match[0].length,
+          block,
+        });
+      }
+    });
+  return passages;
+}
+
+/** The parts of each block that overlap `from`..`to`, e.g. an editor selection. */
+function passagesInRange(
+  content: string,
+  blocks: MarkdownBlock[],
+  from: number,
+  to: number
+): MarkdownPassage[] {
+  return blocks
+    .filter((block) => block.start < to && block.end > from)
+    .map((block) => {
+      const start = Math.max(from, block.start);
+      const end = Math.min(to, block.end);
+      return { text: cleanMarkdownText(content.slice(start, end)), start, end, block };
+    })
+    .filter((passage) => passage.text);
+}
+
+/** The heading above `offset` and where its section ends, including subsections. */
+function headingSection(
+  headings: MarkdownHeading[],
+  offset: number,
+  length: number
+): { heading: MarkdownHeading; end: number } | null {
+  const heading = headings.filter((h) => h.start <= offset).pop();
+  if (!heading) return null;
+  const next = headings.find((h) => h.start > heading.start && h.level <= heading.level);
+  return { heading, end: next ? next.start : length };
+}
+
+class PdfLeafController {
+  private plugin: PdfFlashcardsPlugin;
+  private leaf: WorkspaceLeaf;
+  private toolbar?: HTMLDivElement;
+  private observer?: MutationObserver;
+  private retryTimer?: number;
+  private attachedPdfViewer?: HTMLElement;
+  private selectionHandlerAttached = false;
+  private renderTimer?: number;
+  private flashHighlightId?: string;
+  private flashUntil = 0;
+  private popover?: HTMLDivElement;
+  private popoverCloseHandler?: (event: MouseEvent) => void;
+
+  constructor(plugin: PdfFlashcardsPlugin, leaf: WorkspaceLeaf) {
+    this.plugin = plugin;
+    this.leaf = leaf;
+  }
+
+  init() {
+    this.ensureAttached();
+  }
+
+  destroy() {
+    this.closePopover();
+    this.toolbar?.remove();
+    this.observer?.disconnect();
+    if (this.retryTimer) window.clearTimeout(this.retryTimer);
+  }
+
+  ensureAttached(retries = 5) {
+    const container = this.leaf.view.containerEl;
+    if (!container) return;
+
+    if (!this.toolbar || !container.contains(this.toolbar)) {
+      this.toolbar = container.createDiv({ cls: "study-assist-pdf-toolbar" });
+      this.buildToolbar(this.toolbar);
+    }
+
     const pdfViewer = this.findPdfViewer();
-    if (!pdfViewer) return;
+    if (!pdfViewer) {
+      if (retries > 0) {
+        this.retryTimer = window.setTimeout(() => {
+          void this.ensureAttached(retries - 1);
+        }, 250);
+      }
+      return;
+    }
+
+    if (!this.selectionHandlerAttached) {
+      container.addEventListener("mouseup", (event) => {
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed) return;
+        if (!selection.anchorNode) return;
+        if (!container.contains(selection.anchorNode)) return;
+        event.preventDefault();
+      });
+      this.selectionHandlerAttached = true;
+    }
+
+    if (this.observer && this.attachedPdfViewer !== pdfViewer) {
+      this.observer.disconnect();
+      this.observer = undefined;
+      this.attachedPdfViewer = undefined;
+    }
+
+    if (!this.observer) {
+      this.observer = new MutationObserver(() => {
+        this.scheduleRenderHighlights();
+      });
+      this.observer.observe(pdfViewer, { childList: true, subtree: true });
+      this.attachedPdfViewer = pdfViewer;
+    }
+
+    this.scheduleRenderHighlights();
+  }
+
+  refreshPalette() {
+    if (this.toolbar) {
+      this.toolbar.empty();
+      this.buildToolbar(this.toolbar);
+    }
+    this.scheduleRenderHighlights();
+  }
+
+  private buildToolbar(toolbar: HTMLDivElement) {
+    this.plugin.settings.palette.forEach((category) => {
+      const color = category.id;
+      const btn = toolbar.createEl("button");
+      const swatch = btn.createSpan({ cls: "study-assist-color-swatch" });
+      swatch.style.background = category.color;
+      btn.createSpan({ text: category.name });
+
+      btn.addEventListener("click", () => {
+        void (async () => {
+          const selection = window.getSelection();
+          if (!selection || selection.isCollapsed) {
+            new Notice("Select text in the PDF first.");
+            return;
+          }
+
+          const pdfViewer = this.findPdfViewer();
+          if (!pdfViewer) {
+            new Notice("PDF viewer not found.");
+            return;
+          }
+
+          const highlight = this.buildHighlightFromSelection(selection, pdfViewer, color);
+          if (!highlight) {
+            new Notice("Could not capture selection.");
+            return;
+          }
+
+          const file = this.getPdfFile();
+          if (!file) {
+            new Notice("No PDF file associated with this view.");
+            return;
+          }
+
+          await this.plugin.saveHighlight(file.path, highlight);
+          selection.removeAllRanges();
+          await this.renderHighlights();
+        })();
+      });
+    });
+  }
+
+  private findPdfViewer(): HTMLElement | null {
+    const container = this.leaf.view.containerEl;
+    if (!container) return null;
+    return (
+      container.querySelector<HTMLElement>(".pdf-viewer") ??
+      container.querySelector<HTMLElement>(".pdfViewer") ??
+      container.querySelector<HTMLElement>(".pdf-viewer-container")
+    );
+  }
+
+  private getPdfFile(): TFile | null {
+    const view = this.leaf.view;
+    if (view instanceof FileView && view.file instanceof TFile) return view.file;
+    return null;
+  }
+
+  private buildHighlightFromSelection(
+    selection: Selection,
+    pdfViewer: HTMLElement,
+    color: HighlightColor
+  ): Highlight | null {
+    if (selection.rangeCount === 0) return null;
+    const range = selection.getRangeAt(0);
+    const rects = Array.from(range.getClientRects()).filter(
+      (rect) => rect.width > 1 && rect.height > 1
+    );
+    if (rects.length === 0) return null;
+
+    const pages = Array.from(pdfViewer.querySelectorAll<HTMLElement>(".page"));
+    if (pages.length === 0) return null;
+
+    const pageMap = new Map<number, HighlightRect[]>();
+
+    rects.forEach((rect) => {
+      const centerX = rect.left + rect.width / 2;
+      const centerY = rect.top + rect.height / 2;
+
+      const pageEl = pages.find((page) => {
+        const box = page.getBoundingClientRect();
+        return (
+          centerX >= box.left &&
+          centerX <= box.right &&
+          centerY >= box.top &&
+          centerY <= box.bottom
+        );
+      });
+
+      if (!pageEl) return;
+      const pageNumber = parseInt(pageEl.dataset.pageNumber ?? "1", 10) - 1;
+      const box = pageEl.getBoundingClientRect();
+      const norm: HighlightRect = {
+        x: (rect.left - box.left) / box.width,
+        y: (rect.top - box.top) / box.height,
+        w: rect.width / box.width,
+        h: rect.height / box.height,
+      };
+
+      if (!pageMap.has(pageNumber)) pageMap.set(pageNumber, []);
+      pageMap.get(pageNumber)?.push(norm);
+    });
+
+    if (pageMap.size === 0) return null;
+
+    const pagesArr: HighlightPage[] = Array.from(pageMap.entries()).map(
+      ([page, rectsForPage]) => ({ page, rects: rectsForPage })
+    );
+
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      color,
+      isFlashcard: this.plugin.isFlashcardCategory(color),
+      text: selection.toString(),
+      createdAt: new Date().toISOString(),
+      pages: pagesArr,
+    };
+  }
+
+  private scheduleRenderHighlights() {
+    if (this.renderTimer) window.clearTimeout(this.renderTimer);
+    this.renderTimer = window.setTimeout(() => {
+      void this.renderHighlights();
+    }, 150);
+  }
+
+  private async renderHighlights() {
+    const pdfViewer = this.findPdfViewer();
+    if (!pdfViewer) return;
+
+    const file = this.getPdfFile();
+    if (!file) return;
+
+    const highlights = await this.plugin.loadHighlights(file.path);
+
+    const pageEls = Array.from(pdfViewer.querySelectorAll<HTMLElement>(".page"));
+    pageEls.forEach((pageEl) => {
+      let layer = pageEl.querySelector<HTMLDivElement>(".study-assist-highlight-layer");
+      if (!layer) {
+        if (highlights.length === 0) return;
+        layer = pageEl.createDiv({ cls: "study-assist-highlight-layer" });
+      }
+      layer.empty();
+
+      const pageNumber = parseInt(pageEl.dataset.pageNumber ?? "1", 10) - 1;
+      highlights.forEach((highlight) => {
+        const page = highlight.pages.find((p) => p.page === pageNumber);
+        if (!page) return;
+
+        if (highlight.note && page === highlight.pages[0] && page.rects.length > 0) {
+          const first = page.rects[0];
+          const marker = layer.createDiv({ cls: "study-assist-note-marker" });
+          marker.style.left = `${(first.x + first.w) * 100}%`;
+          marker.style.top = `${first.y * 100}%`;
+          marker.style.background = this.plugin.colorFor(highlight.color);
+          marker.setAttr("aria-label", highlight.note);
+          marker.title = highlight.note;
+          marker.addEventListener("click", (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+            this.openPopover(file, highlight, event);
+          });
+        }
+
+        page.rects.forEach((rect) => {
+          const hl = layer.createDiv({ cls: "study-assist-highlight" });
+          hl.style.left = `${rect.x * 100}%`;
+          hl.style.top = `${rect.y * 100}%`;
+          hl.style.width = `${rect.w * 100}%`;
+          hl.style.height = `${rect.h * 100}%`;
+          hl.style.background = this.plugin.colorFor(highlight.color);
+          hl.dataset.highlightId = highlight.id;
+          if (highlight.note) hl.title = highlight.note;
+          if (this.plugin.isFlashcardHighlight(highlight)) hl.addClass("flashcard");
+          if (highlight.id === this.flashHighlightId && Date.now() < this.flashUntil) {
+            hl.addClass("is-flashing");
+          }
+          hl.addEventListener("click", (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+            this.openPopover(file, highlight, event);
+          });
+        });
+      });
+    });
+  }
+
+  flashHighlight(highlightId: string) {
+    this.flashHighlightId = highlightId;
+    this.flashUntil = Date.now() + 2000;
+    this.ensureAttached();
+    this.scrollToHighlight(highlightId, 20);
+    window.setTimeout(() => this.scheduleRenderHighlights(), 2100);
+  }
+
+  private scrollToHighlight(highlightId: string, retries: number) {
+    const el = this.findPdfViewer()?.querySelector<HTMLElement>(
+      `[data-highlight-id="${CSS.escape(highlightId)}"]`
+    );
+    if (el) {
+      el.scrollIntoView({ block: "center" });
+      return;
+    }
+    if (retries > 0) {
+      window.setTimeout(() => this.scrollToHighlight(highlightId, retries - 1), 200);
+    }
+  }
+
+  private openPopover(file: TFile, highlight: Highlight, event: MouseEvent) {
+    this.closePopover();
+
+    const container = this.leaf.view.containerEl;
+    const popover = container.createDiv({ cls: "study-assist-highlight-popover" });
+    popover.style.left = `${event.clientX}px`;
+    popover.style.top = `${event.clientY + 8}px`;
+    this.popover = popover;
+
+    const colors = popover.createDiv({ cls: "study-assist-popover-colors" });
+    this.plugin.settings.palette.forEach((category) => {
+      const swatch = colors.createEl("button", { cls: "study-assist-color-swatch" });
+      swatch.style.background = category.color;
+      swatch.setAttr("aria-label", category.name);
+      if (category.id === highlight.color) swatch.addClass("is-active");
+      swatch.addEventListener("click", () => {
+        void this.applyHighlightChange(file, highlight.id, {
+          color: category.id,
+          isFlashcard: category.flashcards,
+        });
+      });
+    });
+
+    const actions = popover.createDiv({ cls: "study-assist-popover-actions" });
+
+    const copyBtn = actions.createEl("button", { text: "Copy text" });
+    copyBtn.addEventListener("click", () => {
+      void (async () => {
+        await navigator.clipboard.writeText(highlight.text);
+        new Notice("Highlight text copied.");
+        this.closePopover();
+      })();
+    });
+
+    const flashcardCategory = this.plugin.settings.palette.find((c) => c.flashcards);
+    if (flashcardCategory && !this.plugin.isFlashcardHighlight(highlight)) {
+      const flashcardBtn = actions.createEl("button", { text: "Make flashcard" });
+      flashcardBtn.addEventListener("click", () => {
+        void this.applyHighlightChange(file, highlight.id, {
+          color: flashcardCategory.id,
+          isFlashcard: true,
+          flashcardGenerated: false,
+        });
+      });
+    }
+
+    const noteBtn = actions.createEl("button", { text: highlight.note ? "Edit note" : "Add note" });
+    noteBtn.addEventListener("click", () => {
+      this.closePopover();
+      new HighlightNoteModal(this.plugin.app, highlight, (note) => {
+        void this.applyHighlightChange(file, highlight.id, { note: note || undefined });
+      }).open();
+    });
+
+    const deleteBtn = actions.createEl("button", { text: "Delete", cls: "mod-warning" });
+    deleteBtn.addEventListener("click", () => {
+      this.closePopover();
+      void this.deleteHighlight(file, highlight);
+    });
+
+    this.popoverCloseHandler = (e: MouseEvent) => {
+      if (this.popover && !this.popover.contains(e.target as Node)) this.closePopover();
+    };
+    window.setTimeout(() => {
+      if (this.popoverCloseHandler) {
+        document.addEventListener("mousedown", this.popoverCloseHandler);
+      }
+    }, 0);
+  }
+
+  private closePopover() {
+    if (this.popoverCloseHandler) {
+      document.removeEventListener("mousedown", this.popoverCloseHandler);
+      this.popoverCloseHandler = undefined;
+    }
+    this.popover?.remove();
+    this.popover = undefined;
+  }
+
+  private async applyHighlightChange(
+    file: TFile,
+    highlightId: string,
+    patch: Partial<Highlight>
+  ) {
+    this.closePopover();
+    await this.plugin.updateHighlight(file.path, highlightId, patch);
+    await this.renderHighlights();
+  }
+
+  private async deleteHighlight(file: TFile, highlight: Highlight) {
+    const cards = await this.plugin.loadAllCards();
+    const linked = cards.filter((card) => card.highlightIds.includes(highlight.id));
+
+    const remove = async (deleteCards: boolean) => {
+      await this.plugin.removeHighlight(file.path, highlight.id);
+      if (deleteCards) await this.plugin.removeCards(linked.map((card) => card.id));
+      await this.renderHighlights();
+    };
+
+    if (linked.length === 0) {
+      await remove(false);
+      return;
+    }
+
+    new DeleteHighlightModal(this.plugin.app, linked, (deleteCards) => {
+      void remove(deleteCards);
+    }).open();
+  }
+}
+
+/**
+ * Pulls the JSON value out of a model reply that may be wrapped in a Markdown
+ * code fence or surrounded by prose.
+ */
+function extractJsonPayload(raw: string): unknown {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : raw).trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to slicing out the outermost array or object.
+  }
+
+  const starts = [text.indexOf("["), text.indexOf("{")].filter((i) => i >= 0);
+  if (starts.length === 0) throw new Error("The reply contained no JSON.");
+  const start = Math.min(...starts);
+  const end = text.lastIndexOf(text[start] === "[" ? "]" : "}");
+  if (end <= start) throw new Error("The reply contained incomplete JSON.");
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (err) {
+    throw new Error(`The reply was not valid JSON (${(err as Error).message}).`);
+  }
+}
+
+/** Accepts a bare array, `{ "cards": [...] }`-style wrappers, or a single card object. */
+function unwrapCardArray(payload: unknown): unknown[] | null {
+  if (Array.isArray(payload)) return payload;
+  if (!payload || typeof payload !== "object") return null;
+  const record = payload as Record<string, unknown>;
+  for (const key of ["cards", "flashcards", "items", "data"]) {
+    if (Array.isArray(record[key])) return record[key] as unknown[];
+  }
+  const arrays = Object.values(record).filter(Array.isArray);
+  if (arrays.length === 1) return arrays[0] as unknown[];
+  if ("question" in record || "text" in record) return [record];
+  return null;
+}
+
+/**
+ * Highlights a saved card counts as converted. A card whose sources couldn't be
+ * resolved covers its whole batch, or those highlights would be sent again.
+ */
+function doneHighlightIds(card: Flashcard, batch: Highlight[]): string[] {
+  return card.unresolvedSource ? batch.map((h) => h.id) : card.highlightIds;
+}
+
+/** Close enough for budgeting across providers: about four characters per token. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Both token counts only if the server reported them. */
+function usageFrom(input?: number, output?: number): LlmUsage | undefined {
+  if (typeof input !== "number" || typeof output !== "number") return undefined;
+  return { inputTokens: input, outputTokens: output };
+}
+
+/**
+ * Price for a model name. Entries match exactly or as a prefix, so
+ * "claude-3-5-sonnet" also prices "claude-3-5-sonnet-20241022"; the longest match wins.
+ */
+function priceFor(prices: ModelPrice[], model: string): ModelPrice | undefined {
+  return prices
+    .filter((price) => price.model && model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+/** Cost in US dollars, or null when the model has no price. */
+function usageCost(
+  prices: ModelPrice[],
+  model: string,
+  input: number,
+  output: number
+): number | null {
+  const price = priceFor(prices, model);
+  if (!price) return null;
+  return (input * price.input + output * price.output) / 1_000_000;
+}
+
+function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? "< $0.01" : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight. Stops starting
+ * new items once `isCancelled` returns true.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  isCancelled: () => boolean
+) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !isCancelled()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+class GenerationProgress {
+  cancelled = false;
+  private done = 0;
+  private total: number;
+  private notice: Notice;
+  private statusEl: HTMLElement;
+
+  constructor(plugin: Plugin, total: number) {
+    this.total = total;
+    this.notice = new Notice("", 0);
+    this.statusEl = plugin.addStatusBarItem();
+    this.statusEl.addClass("study-assist-generation-status");
+    this.update();
+  }
+
+  advance() {
+    this.done += 1;
+    this.update();
+  }
+
+  finish() {
+    this.notice.hide();
+    this.statusEl.remove();
+  }
+
+  private update() {
+    const label = this.cancelled
+      ? "Cancelling flashcard generation..."
+      : `Generating flashcards: ${this.done}/${this.total} batches`;
+    const cancel = () => {
+      this.cancelled = true;
+      this.update();
+    };
+
+    this.notice.setMessage(
+      createFragment((frag) => {
+        frag.createSpan({ text: label });
+        if (!this.cancelled) {
+          const btn = frag.createEl("button", { text: "Cancel", cls: "study-assist-cancel" });
+          btn.addEventListener("click", cancel);
+        }
+      })
+    );
+
+    this.statusEl.empty();
+    this.statusEl.createSpan({ text: label });
+    if (!this.cancelled) {
+      const link = this.statusEl.createEl("a", { text: "Cancel", cls: "study-assist-cancel" });
+      link.addEventListener("click", cancel);
+    }
+  }
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+async function postJson(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<unknown> {
+  const response = await requestUrl({
+    url,
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    throw: false,
+  });
+
+  if (response.status < 200 || response.status >= 300) {
+    const errorText = response.text || JSON.stringify(response.json ?? "");
+    throw new Error(`${label} API error (${response.status}): ${errorText}`);
+  }
+  return response.json;
+}
+
+class OpenAIResponsesProvider implements LlmProvider {
+  readonly label = "OpenAI";
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string) {
+    this.apiKey = apiKey;
+    this.model = model || "gpt-5.1";
+  }
+
+  configError(): string | null {
+    return this.apiKey ? null : "Set your OpenAI API key in the plugin settings first.";
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const data = (await postJson(
+      this.label,
+      "https://api.openai.com/v1/responses",
+      { Authorization: `Bearer ${this.apiKey}` },
+      {
+        model: this.model,
+        instructions: request.systemPrompt,
+        input: request.userPrompt,
+        temperature: request.temperature,
+        ...(request.schema
+          ? { text: { format: { type: "json_schema", strict: false, ...request.schema } } }
+          : {}),
+      }
+    )) as OpenAIResponseData;
+    return {
+      text: this.extractOutputText(data),
+      model: data.model || this.model,
+      usage: usageFrom(data.usage?.input_tokens, data.usage?.output_tokens),
+    };
+  }
+
+  private extractOutputText(data: OpenAIResponseData): string {
+    if (data.output_text && typeof data.output_text === "string") {
+      return data.output_text;
+    }
+
+    if (Array.isArray(data.output)) {
+      for (const item of data.output) {
+        if (item?.type === "message" && Array.isArray(item.content)) {
+          const textPart = item.content.find(
+            (content) => content.type === "output_text" || content.type === "text"
+          );
+          if (textPart?.text) return textPart.text;
+        }
+      }
+    }
+
+    if (data?.content && typeof data.content === "string") return data.content;
+    return "";
+  }
+}
+
+class OpenAICompatibleProvider implements LlmProvider {
+  readonly label = "OpenAI-compatible";
+  private config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  configError(): string | null {
+    if (!this.config.baseUrl) return "Set the base URL of your OpenAI-compatible endpoint first.";
+    if (!this.config.model) return "Set the model of your OpenAI-compatible endpoint first.";
+    return null;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+    const data = (await postJson(
+      this.label,
+      joinUrl(this.config.baseUrl, "/chat/completions"),
+      headers,
+      {
+        model: this.config.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+        temperature: request.temperature,
+        ...(request.schema && this.config.structuredOutput !== false
+          ? { response_format: { type: "json_schema", json_schema: request.schema } }
+          : {}),
+      }
+    )) as ChatCompletionData;
+    return {
+      text: data.choices?.[0]?.message?.content ?? "",
+      model: data.model || this.config.model,
+      usage: usageFrom(data.usage?.prompt_tokens, data.usage?.completion_tokens),
+    };
+  }
+}
+
+class AnthropicProvider implements LlmProvider {
+  readonly label = "Anthropic";
+  private config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  configError(): string | null {
+    if (!this.config.apiKey) return "Set your Anthropic API key in the plugin settings first.";
+    if (!this.config.model) return "Set the Anthropic model in the plugin settings first.";
+    return null;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const data = (await postJson(
+      this.label,
+      joinUrl(this.config.baseUrl || "https://api.anthropic.com", "/v1/messages"),
+      { "x-api-key": this.config.apiKey, "anthropic-version": "2023-06-01" },
+      {
+        model: this.config.model,
+        max_tokens: 4096,
+        system: request.systemPrompt,
+        messages: [{ role: "user", content: request.userPrompt }],
+        temperature: request.temperature,
+      }
+    )) as AnthropicMessageData;
+    return {
+      text: (data.content ?? [])
+        .filter((part) => part.type === "text" && part.text)
+        .map((part) => part.text)
+        .join(""),
+      model: data.model || this.config.model,
+      usage: usageFrom(data.usage?.input_tokens, data.usage?.output_tokens),
+    };
+  }
+}
+
+class OllamaProvider implements LlmProvider {
+  readonly label = "Ollama";
+  private config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  configError(): string | null {
+    if (!this.config.baseUrl) return "Set the Ollama server URL in the plugin settings first.";
+    if (!this.config.model) return "Set the Ollama model in the plugin settings first.";
+    return null;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const data = (await postJson(
+      this.label,
+      joinUrl(this.config.baseUrl, "/api/chat"),
+      {},
+      {
+        model: this.config.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+        stream: false,
+        options: { temperature: request.temperature },
+        ...(request.schema ? { format: request.schema.schema } : {}),
+      }
+    )) as OllamaChatData;
+    return {
+      text: data.message?.content ?? "",
+      model: data.model || this.config.model,
+      usage: usageFrom(data.prompt_eval_count, data.eval_count),
+    };
+  }
+}
+
+function withModel(config: ProviderConfig, model?: string): ProviderConfig {
+  return model ? { ...config, model } : config;
+}
+
+/** `model` overrides the configured model, e.g. from a generation profile. */
+function createProvider(settings: PluginSettings, model?: string): LlmProvider {
+  switch (settings.provider) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(withModel(settings.openaiCompatible, model));
+    case "anthropic":
+      return new AnthropicProvider(withModel(settings.anthropic, model));
+    case "ollama":
+      return new OllamaProvider(withModel(settings.ollama, model));
+    default:
+      return new OpenAIResponsesProvider(settings.apiKey, model || settings.model);
+  }
+}
+
+type SqlValue = string | number | null;
+
+interface SqliteTable {
+  name: string;
+  sql: string;
+  /** Rows in ascending rowid order; an INTEGER PRIMARY KEY column is stored as NULL. */
+  rows: { rowid: number; values: SqlValue[] }[];
+}
+
+const SQLITE_PAGE_SIZE = 4096;
+
+function sqliteVarint(value: number): number[] {
+  if (value < 0x80) return [value];
+  const groups: number[] = [];
+  let rest = value;
+  while (rest > 0) {
+    groups.unshift(rest % 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  return groups.map((group, index) => (index < groups.length - 1 ? group | 0x80 : group));
+}
+
+function sqliteInteger(value: number): { type: number; bytes: number[] } {
+  const bytes = (length: number) => {
+    const out: number[] = [];
+    let rest = value;
+    for (let i = 0; i < length; i++) {
+      const byte = ((rest % 256) + 256) % 256;
+      out.unshift(byte);
+      rest = Math.floor((rest - byte) / 256);
+    }
+    return out;
+  };
+  if (value === 0) return { type: 8, bytes: [] };
+  if (value === 1) return { type: 9, bytes: [] };
+  if (value >= -128 && value < 128) return { type: 1, bytes: bytes(1) };
+  if (value >= -32768 && value < 32768) return { type: 2, bytes: bytes(2) };
+  if (value >= -2147483648 && value < 2147483648) return { type: 4, bytes: bytes(4) };
+  return { type: 6, bytes: bytes(8) };
+}
+
+/** Serializes one row in SQLite's record format. */
+function sqliteRecord(values: SqlValue[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const types: number[] = [];
+  const body: number[] = [];
+  values.forEach((value) => {
+    if (value === null) {
+      types.push(0);
+    } else if (typeof value === "number") {
+      const { type, bytes } = sqliteInteger(Math.round(value));
+      types.push(type);
+      body.push(...bytes);
+    } else {
+      const bytes = encoder.encode(value);
+      types.push(13 + 2 * bytes.length);
+      for (const byte of bytes) body.push(byte);
+    }
+  });
+  const typeBytes = types.flatMap(sqliteVarint);
+  // The header size counts itself; one varint byte is enough below 128.
+  let headerSize = typeBytes.length + 1;
+  if (headerSize >= 0x80) headerSize = typeBytes.length + sqliteVarint(typeBytes.length + 2).length;
+  return Uint8Array.from([...sqliteVarint(headerSize), ...typeBytes, ...body]);
+}
+
+/**
+ * Writes a complete SQLite 3 database file holding the given tables, without
+ * indexes. Enough for handing data to tools that read SQLite, such as Anki.
+ */
+function writeSqliteDatabase(tables: SqliteTable[]): Uint8Array {
+  const size = SQLITE_PAGE_SIZE;
+  // pages[0] is page 1, filled in last because it holds the schema.
+  const pages: Uint8Array[] = [new Uint8Array(size)];
+  const allocate = () => {
+    pages.push(new Uint8Array(size));
+    return pages.length;
+  };
+
+  const maxLocal = size - 35;
+  const minLocal = Math.floor(((size - 12) * 32) / 255) - 23;
+  const leafCell = (rowid: number, payload: Uint8Array): number[] => {
+    const head = [...sqliteVarint(payload.length), ...sqliteVarint(rowid)];
+    if (payload.length <= maxLocal) return [...head, ...payload];
+    let local = minLocal + ((payload.length - minLocal) % (size - 4));
+    if (local > maxLocal) local = minLocal;
+    // Spill the rest into a chain of overflow pages.
+    let offset = local;
+    let first = 0;
+    let previous: Uint8Array | null = null;
+    while (offset < payload.length) {
+      const number = allocate();
+      const page = pages[number - 1];
+      if (previous) new DataView(previous.buffer).setUint32(0, number);
+      else first = number;
+      const chunk = payload.subarray(offset, offset + size - 4);
+      page.set(chunk, 4);
+      offset += chunk.length;
+      previous = page;
+    }
+    const pointer = [
+      (first >>> 24) & 0xff,
+      (first >>> 16) & 0xff,
+      (first >>> 8) & 0xff,
+      first & 0xff,
+    ];
+    return [...head, ...payload.subarray(0, local), ...pointer];
+  };
+
+  /** Lays cells out on one b-tree page; `start` is 100 on page 1 for the file header. */
+  const writePage = (
+    page: Uint8Array,
+    start: number,
+    type: number,
+    cells: number[][],
+    right?: number
+  ) => {
+    const view = new DataView(page.buffer);
+    const headerSize = type === 0x05 ? 12 : 8;
+    page[start] = type;
+    view.setUint16(start + 3, cells.length);
+    if (right !== undefined) view.setUint32(start + 8, right);
+    let contentStart = size;
+    cells.forEach((cell, index) => {
+      contentStart -= cell.length;
+      page.set(cell, contentStart);
+      view.setUint16(start + headerSize + index * 2, contentStart);
+    });
+    view.setUint16(start + 5, contentStart);
+  };
+
+  /** Splits cells into page-sized groups. */
+  const pack = (cells: number[][], room: number): number[][][] => {
+    const groups: number[][][] = [[]];
+    let used = 0;
+    cells.forEach((cell) => {
+      const cost = cell.length + 2;
+      if (used + cost > room && groups[groups.length - 1].length > 0) {
+        groups.push([]);
+        used = 0;
+      }
+      groups[groups.length - 1].push(cell);
+      used += cost;
+    });
+    return groups;
+  };
+
+  const buildTable = (rows: SqliteTable["rows"]): number => {
+    const cells = rows.map((row) => leafCell(row.rowid, sqliteRecord(row.values)));
+    let written = 0;
+    let level = pack(cells, size - 8).map((group) => {
+      const number = allocate();
+      writePage(pages[number - 1], 0, 0x0d, group);
+      written += group.length;
+      return { number, maxRowid: written > 0 ? rows[written - 1].rowid : 0 };
+    });
+    while (level.length > 1) {
+      const children = level;
+      const groups: { number: number; maxRowid: number }[][] = [];
+      const room = size - 12;
+      let used = room;
+      children.forEach((child) => {
+        const cost = 4 + sqliteVarint(child.maxRowid).length + 2;
+        if (used + cost > room) {
+          groups.push([]);
+          used = 0;
+        }
+        groups[groups.length - 1].push(child);
+        used += cost;
+      });
+      // An interior page needs at least one cell besides its right-most child.
+      const lastGroup = groups[groups.length - 1];
+      if (groups.length > 1 && lastGroup.length === 1) {
+        lastGroup.unshift(groups[groups.length - 2].pop() as { number: number; maxRowid: number });
+      }
+      level = groups.map((group) => {
+        const number = allocate();
+        const last = group[group.length - 1];
+        const cells = group.slice(0, -1).map((child) => [
+          (child.number >>> 24) & 0xff,
+          (child.number >>> 16) & 0xff,
+          (child.number >>> 8) & 0xff,
+          child.number & 0xff,
+          ...sqliteVarint(child.maxRowid),
+        ]);
+        writePage(pages[number - 1], 0, 0x05, cells, last.number);
+        return { number, maxRowid: last.maxRowid };
+      });
+    }
+    return level[0].number;
+  };
+
+  const schema = tables.map((table, index) => {
+    const root = buildTable(table.rows);
+    return leafCell(index + 1, sqliteRecord(["table", table.name, table.name, root, table.sql]));
+  });
+  const first = pages[0];
+  writePage(first, 100, 0x0d, schema);
+
+  const header = new DataView(first.buffer);
+  first.set(new TextEncoder().encode("SQLite format 3\0"), 0);
+  header.setUint16(16, size);
+  first[18] = 1;
+  first[19] = 1;
+  first[21] = 64;
+  first[22] = 32;
+  first[23] = 32;
+  header.setUint32(24, 1);
+  header.setUint32(28, pages.length);
+  header.setUint32(40, 1);
+  header.setUint32(44, 4);
+  header.setUint32(56, 1);
+  header.setUint32(92, 1);
+  header.setUint32(96, 3045000);
+
+  const out = new Uint8Array(pages.length * size);
+  pages.forEach((page, index) => out.set(page, index * size));
+  return out;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** An uncompressed ("stored") ZIP archive. */
+function buildZip(entries: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(12, 0x21, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const cv = new DataView(record.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    chunks.push(local, entry.data);
+    central.push(record);
+    offset += local.length + entry.data.length;
+  });
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, end];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    out.set(part, position);
+    position += part.length;
+  });
+  return out;
+}
+
+const ANKI_BASIC_MODEL_ID = 1700000000001;
+const ANKI_CLOZE_MODEL_ID = 1700000000002;
+const ANKI_CSS =
+  ".card { font-family: arial; font-size: 20px; text-align: center; color: black; " +
+  "background-color: white; }\n.cloze { font-weight: bold; color: blue; }\n.source { font-size: 12px; }";
+const ANKI_LATEX_PRE =
+  "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n" +
+  "\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n";
+
+/** A card ready for export, with its deck and where it came from already resolved. */
+interface ExportCard {
+  card: Flashcard;
+  /** In Anki's "Parent::Child" form. */
+  deck: string;
+  sourceLabel: string;
+  sourceUri: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "<br>");
+}
+
+/** Anki nests decks with "::" where this plugin uses "/". */
+function ankiDeckName(deck: string): string {
+  return deck
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("::");
+}
+
+function ankiModel(id: number, name: string, cloze: boolean, mod: number) {
+  const fields = cloze ? ["Text", "Back Extra", "Source"] : ["Front", "Back", "Source"];
+  const source = '<div class="source">{{Source}}</div>';
+  return {
+    id,
+    name,
+    type: cloze ? 1 : 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: 1,
+    tmpls: [
+      {
+        name: cloze ? "Cloze" : "Card 1",
+        ord: 0,
+        qfmt: cloze ? "{{cloze:Text}}" : "{{Front}}",
+        afmt: cloze
+          ? `{{cloze:Text}}<br>{{Back Extra}}${source}`
+          : `{{FrontSide}}<hr id=answer>{{Back}}${source}`,
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+    flds: fields.map((field, ord) => ({
+      name: field,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: ANKI_CSS,
+    latexPre: ANKI_LATEX_PRE,
+    latexPost: "\\end{document}",
+    latexsvg: false,
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function ankiDeck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: "",
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  };
+}
+
+const ANKI_DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+  rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+/** Anki's note checksum: the first 8 hex digits of the SHA-1 of the sort field. */
+async function ankiChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+}
+
+/**
+ * Builds an Anki package (collection.anki2, schema 11) with one note per card.
+ * With `progress`, reviewed cards keep their interval, ease and due date;
+ * everything else arrives as new.
+ */
+async function buildAnkiPackage(
+  cards: ExportCard[],
+  progress: Record<string, CardProgress> | null
+): Promise<Uint8Array> {
+  const now = Date.now();
+  const mod = Math.floor(now / 1000);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const crt = Math.floor(today.getTime() / 1000);
+
+  const deckIds = new Map<string, number>();
+  cards.forEach((entry) => {
+    if (!deckIds.has(entry.deck)) deckIds.set(entry.deck, now + deckIds.size + 1);
+  });
+  const decks: Record<string, unknown> = { "1": ankiDeck(1, "Default", mod) };
+  deckIds.forEach((id, name) => {
+    decks[String(id)] = ankiDeck(id, name, mod);
+  });
+  const models = {
+    [ANKI_BASIC_MODEL_ID]: ankiModel(ANKI_BASIC_MODEL_ID, "Study Assist Basic", false, mod),
+    [ANKI_CLOZE_MODEL_ID]: ankiModel(ANKI_CLOZE_MODEL_ID, "Study Assist Cloze", true, mod),
+  };
+
+  const notes: SqliteTable["rows"] = [];
+  const ankiCards: SqliteTable["rows"] = [];
+  let newPosition = 0;
+  for (const [index, entry] of cards.entries()) {
+    const { card } = entry;
+    const cloze = card.type === "cloze";
+    const ords = cloze ? clozeNumbers(card.question).map((n) => n - 1) : [0];
+    if (ords.length === 0) continue;
+
+    const noteId = now + index;
+    const source = entry.sourceUri
+      ? `<a href="${escapeHtml(entry.sourceUri)}">${escapeHtml(entry.sourceLabel)}</a>`
+      : escapeHtml(entry.sourceLabel);
+    const fields = [escapeHtml(card.question), escapeHtml(card.answer), source];
+    const tags = (card.tags ?? []).length > 0 ? ` ${(card.tags ?? []).join(" ")} ` : "";
+    notes.push({
+      rowid: noteId,
+      values: [
+        null,
+        `study-assist:${card.id}`,
+        cloze ? ANKI_CLOZE_MODEL_ID : ANKI_BASIC_MODEL_ID,
+        mod,
+        -1,
+        tags,
+        fields.join("\x1f"),
+        card.question,
+        await ankiChecksum(card.question),
+        0,
+        "",
+      ],
+    });
+
+    ords.forEach((ord) => {
+      const key = cloze ? `${card.id}::c${ord + 1}` : card.id;
+      const state = progress?.[key];
+      const reviewed = !!state?.lastReviewedAt && !!state.nextDueAt;
+      const due = reviewed
+        ? Math.floor((Date.parse(state?.nextDueAt ?? "") / 1000 - crt) / 86400)
+        : newPosition++;
+      ankiCards.push({
+        rowid: noteId * 100 + ord,
+        values: [
+          null,
+          noteId,
+          deckIds.get(entry.deck) ?? 1,
+          ord,
+          mod,
+          -1,
+          reviewed ? 2 : 0,
+          reviewed ? 2 : 0,
+          due,
+          reviewed ? Math.max(1, Math.round(state?.intervalDays ?? 1)) : 0,
+          reviewed ? Math.round((state?.ease ?? DEFAULT_EASE) * 1000) : 0,
+          reviewed ? (state?.streak ?? 0) + (state?.lapses ?? 0) : 0,
+          reviewed ? state?.lapses ?? 0 : 0,
+          0,
+          0,
+          0,
+          0,
+          "",
+        ],
+      });
+    });
+  }
+  // Card ids are derived from note ids, so both tables are already in rowid order.
+
+  const col = [
+    null,
+    crt,
+    now,
+    now,
+    11,
+    0,
+    0,
+    0,
+    JSON.stringify({ nextPos: newPosition + 1, curModel: ANKI_BASIC_MODEL_ID, curDeck: 1 }),
+    JSON.stringify(models),
+    JSON.stringify(decks),
+    JSON.stringify({ "1": ANKI_DECK_CONFIG }),
+    "{}",
+  ];
+
+  const database = writeSqliteDatabase([
+    {
+      name: "col",
+      sql:
+        "CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, " +
+        "scm integer not null, ver integer not null, dty integer not null, usn integer not null, " +
+        "ls integer not null, conf text not null, models text not null, decks text not null, " +
+        "dconf text not null, tags text not null)",
+      rows: [{ rowid: 1, values: col }],
+    },
+    {
+      name: "notes",
+      sql:
+        "CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, " +
+        "mod integer not null, usn integer not null, tags text not null, flds text not null, " +
+        "sfld integer not null, csum integer not null, flags integer not null, data text not null)",
+      rows: notes,
+    },
+    {
+      name: "cards",
+      sql:
+        "CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, " +
+        "ord integer not null, mod integer not null, usn integer not null, type integer not null, " +
+        "queue integer not null, due integer not null, ivl integer not null, factor integer not null, " +
+        "reps integer not null, lapses integer not null, left integer not null, odue integer not null, " +
+        "odid integer not null, flags integer not null, data text not null)",
+      rows: ankiCards,
+    },
+    {
+      name: "revlog",
+      sql:
+        "CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, " +
+        "ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, " +
+        "time integer not null, type integer not null)",
+      rows: [],
+    },
+    {
+      name: "graves",
+      sql: "CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)",
+      rows: [],
+    },
+  ]);
+
+  return buildZip([
+    { name: "collection.anki2", data: database },
+    { name: "media", data: new TextEncoder().encode("{}") },
+  ]);
+}
+
+/** CSV/TSV with Anki's file headers, so Anki picks the note type, deck and tags columns itself. */
+function buildDelimitedExport(cards: ExportCard[], delimiter: "," | "\t"): string {
+  const rows = cards.map(({ card, deck, sourceLabel, sourceUri }) => [
+    card.type === "cloze" ? "Cloze" : "Basic",
+    card.question,
+    card.answer,
+    deck,
+    (card.tags ?? []).join(" "),
+    sourceUri || sourceLabel,
+  ]);
+  const header = [
+    `#separator:${delimiter === "\t" ? "Tab" : "Comma"}`,
+    "#html:false",
+    "#notetype column:1",
+    "#deck column:4",
+    "#tags column:5",
+    `#columns:${["Note type", "Front", "Back", "Deck", "Tags", "Source"].join(delimiter)}`,
+  ];
+  return `${header.join("\n")}\n${formatDelimited(rows, delimiter)}`;
+}
+
+function formatDelimited(rows: string[][], delimiter: string): string {
+  const quote = (value: string) =>
+    /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+  return rows.map((row) => row.map(quote).join(delimiter)).join("\n") + "\n";
+}
+
+/** RFC 4180 parsing: quoted fields may hold the delimiter, quotes ("") and line breaks. */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+interface DelimitedFile {
+  rows: string[][];
+  /** Column names from an Anki `#columns:` header, if there was one. */
+  columns?: string[];
+  deckColumn?: number;
+  tagsColumn?: number;
+  typeColumn?: number;
+}
+
+const DELIMITER_NAMES: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+  space: " ",
+  colon: ":",
+};
+
+/** Reads Anki-style `#key:value` headers, then the rows below them. */
+function readDelimitedFile(text: string, extension: string): DelimitedFile {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const directives = new Map<string, string>();
+  let bodyStart = 0;
+  while (bodyStart < lines.length && lines[bodyStart].startsWith("#")) {
+    const match = lines[bodyStart].match(/^#([^:]+):(.*)$/);
+    if (match) directives.set(match[1].trim().toLowerCase(), match[2]);
+    bodyStart++;
+  }
+  const body = lines.slice(bodyStart).join("\n");
+
+  const separator = directives.get("separator");
+  let delimiter = separator ? DELIMITER_NAMES[separator.trim().toLowerCase()] ?? separator : "";
+  if (!delimiter) {
+    if (extension === "tsv") {
+      delimiter = "\t";
+    } else {
+      const firstLine = lines[bodyStart] ?? "";
+      const counts = ["\t", ",", ";"].map((d) => ({ d, count: firstLine.split(d).length }));
+      delimiter = counts.sort((a, b) => b.count - a.count)[0].d;
+    }
+  }
+
+  const column = (key: string) => {
+    const value = parseInt(directives.get(key) ?? "", 10);
+    return Number.isNaN(value) ? undefined : value - 1;
+  };
+  const columns = directives.get("columns");
+  return {
+    rows: parseDelimited(body, delimiter),
+    columns: columns ? columns.split(delimiter).map((name) => name.trim()) : undefined,
+    deckColumn: column("deck column"),
+    tagsColumn: column("tags column"),
+    typeColumn: column("notetype column"),
+  };
+}
+
+interface PdfName {
+  name: string;
+}
+
+/** A string as raw bytes, one char per byte. */
+interface PdfString {
+  bytes: string;
+}
+
+interface PdfRef {
+  num: number;
+  gen: number;
+}
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfValue[]
+  | Map<string, PdfValue>;
+
+type PdfDict = Map<string, PdfValue>;
+
+interface PdfStream {
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+type PdfXrefEntry = { offset: number } | { stream: number; index: number } | null;
+
+function isPdfName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "name" in value &&
+    (name === undefined || value.name === name)
+  );
+}
+
+function isPdfRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === "object" && value !== null && "num" in value;
+}
+
+function isPdfString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === "object" && value !== null && "bytes" in value;
+}
+
+function isPdfDict(value: PdfValue | PdfStream | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+function isPdfStream(value: PdfValue | PdfStream | undefined): value is PdfStream {
+  return typeof value === "object" && value !== null && "dict" in value;
+}
 
-    const file = this.getPdfFile();
-    if (!file) return;
+const PDF_WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const PDF_DELIMITERS = new Set("()<>[]{}/%".split("").map((c) => c.charCodeAt(0)));
 
-    const highlights = await this.plugin.loadHighlights(file.path);
-    if (highlights.length === 0) return;
+/** Reads PDF objects from raw bytes; just enough syntax for pages and annotations. */
+class PdfParser {
+  pos: number;
+  private data: Uint8Array;
 
-    const pageEls = Array.from(pdfViewer.querySelectorAll<HTMLElement>(".page"));
-    pageEls.forEach((pageEl) => {
-      let layer = pageEl.querySelector<HTMLDivElement>(".study-assist-highlight-layer");
-      if (!layer) {
-        layer = pageEl.createDiv({ cls: "study-assist-highlight-layer" });
+  constructor(data: Uint8Array, pos = 0) {
+    this.data = data;
+    this.pos = pos;
+  }
+
+  skipWhitespace() {
+    const { data } = this;
+    while (this.pos < data.length) {
+      const byte = data[this.pos];
+      if (byte === 0x25) {
+        while (this.pos < data.length && data[this.pos] !== 10 && data[this.pos] !== 13) {
+          this.pos++;
+        }
+      } else if (PDF_WHITESPACE.has(byte)) {
+        this.pos++;
+      } else {
+        break;
       }
-      layer.empty();
+    }
+  }
 
-      const pageNumber = parseInt(pageEl.dataset.pageNumber ?? "1", 10) - 1;
-      highlights.forEach((highlight) => {
-        const page = highlight.pages.find((p) => p.page === pageNumber);
-        if (!page) return;
+  /** The next run of regular characters, e.g. a number or keyword. */
+  readToken(): string {
+    this.skipWhitespace();
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !PDF_WHITESPACE.has(this.data[this.pos]) &&
+      !PDF_DELIMITERS.has(this.data[this.pos])
+    ) {
+      this.pos++;
+    }
+    return latin1(this.data.subarray(start, this.pos));
+  }
 
-        page.rects.forEach((rect) => {
-          const hl = layer.createDiv({ cls: "study-assist-highlight" });
-          hl.style.left = `${rect.x * 100}%`;
-          hl.style.top = `${rect.y * 100}%`;
-          hl.style.width = `${rect.w * 100}%`;
-          hl.style.height = `${rect.h * 100}%`;
-          hl.style.background = COLOR_MAP[highlight.color];
-          if (highlight.isFlashcard) hl.addClass("flashcard");
-        });
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const { data } = this;
+    const byte = data[this.pos];
+    if (byte === 0x2f) {
+      this.pos++;
+      const token = this.readToken();
+      return {
+        name: token.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16))
+        ),
+      };
+    }
+    if (byte === 0x28) return { bytes: this.readLiteralString() };
+    if (byte === 0x3c && data[this.pos + 1] === 0x3c) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= data.length) throw new Error("Unterminated dictionary");
+        if (data[this.pos] === 0x3e && data[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          return dict;
+        }
+        const key = this.parseValue();
+        if (!isPdfName(key)) throw new Error(`Dictionary key expected at ${this.pos}`);
+        dict.set(key.name, this.parseValue());
+      }
+    }
+    if (byte === 0x3c) {
+      const end = data.indexOf(0x3e, this.pos);
+      const hex = latin1(data.subarray(this.pos + 1, end)).replace(/[^0-9a-fA-F]/g, "");
+      this.pos = end + 1;
+      let bytes = "";
+      for (let i = 0; i < hex.length; i += 2) {
+        bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+      }
+      return { bytes };
+    }
+    if (byte === 0x5b) {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= data.length) throw new Error("Unterminated array");
+        if (data[this.pos] === 0x5d) {
+          this.pos++;
+          return items;
+        }
+        items.push(this.parseValue());
+      }
+    }
+
+    const token = this.readToken();
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    const number = Number(token);
+    if (token === "" || Number.isNaN(number)) {
+      throw new Error(`Unexpected "${token}" at ${this.pos}`);
+    }
+    if (/^\d+$/.test(token)) {
+      // "12 0 R" is a reference; anything else leaves the integer alone.
+      const saved = this.pos;
+      const gen = this.readToken();
+      if (/^\d+$/.test(gen) && this.readToken() === "R") {
+        return { num: number, gen: Number(gen) };
+      }
+      this.pos = saved;
+    }
+    return number;
+  }
+
+  private readLiteralString(): string {
+    const { data } = this;
+    let depth = 0;
+    let out = "";
+    this.pos++;
+    while (this.pos < data.length) {
+      const byte = data[this.pos++];
+      if (byte === 0x5c) {
+        const next = data[this.pos++];
+        const escapes: Record<number, string> = {
+          0x6e: "\n",
+          0x72: "\r",
+          0x74: "\t",
+          0x62: "\b",
+          0x66: "\f",
+        };
+        if (escapes[next] !== undefined) {
+          out += escapes[next];
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = String.fromCharCode(next);
+          while (octal.length < 3 && data[this.pos] >= 0x30 && data[this.pos] <= 0x37) {
+            octal += String.fromCharCode(data[this.pos++]);
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === 13) {
+          if (data[this.pos] === 10) this.pos++;
+        } else if (next !== 10) {
+          out += String.fromCharCode(next);
+        }
+        continue;
+      }
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && depth-- === 0) return out;
+      out += String.fromCharCode(byte);
+    }
+    throw new Error("Unterminated string");
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder("latin1").decode(bytes);
+}
+
+function pdfBytesMatch(data: Uint8Array, pos: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (data[pos + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice().buffer])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Undoes the PNG row filters used by compressed cross-reference and object streams. */
+function undoPngPredictor(
+  data: Uint8Array,
+  columns: number,
+  colors: number,
+  bits: number
+): Uint8Array {
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((columns * colors * bits) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const start = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? out[start + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[start + i - rowLength] : 0;
+      const upLeft =
+        row > 0 && i >= bytesPerPixel ? out[start + i - rowLength - bytesPerPixel] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = Math.floor((left + up) / 2);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[start + i] = (data[input + i] + predicted) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Random access to the objects of an unencrypted PDF, following the
+ * cross-reference chain through classic tables, xref streams and object streams.
+ */
+class PdfDocumentReader {
+  readonly data: Uint8Array;
+  readonly startXref: number;
+  trailer: PdfDict = new Map();
+  private xref = new Map<number, PdfXrefEntry>();
+  private objectStreams = new Map<
+    number,
+    Promise<{ data: Uint8Array; offsets: Map<number, number> }>
+  >();
+
+  private constructor(data: Uint8Array, startXref: number) {
+    this.data = data;
+    this.startXref = startXref;
+  }
+
+  static async open(data: Uint8Array): Promise<PdfDocumentReader> {
+    const tail = latin1(data.subarray(Math.max(0, data.length - 1024)));
+    const match = tail.match(/startxref\s+(\d+)\s+%%EOF\s*$/) ?? tail.match(/startxref\s+(\d+)/);
+    if (!match) throw new Error("Not a PDF file, or the file is damaged.");
+    const reader = new PdfDocumentReader(data, Number(match[1]));
+    await reader.readXref(reader.startXref, new Set());
+    if (reader.trailer.has("Encrypt")) throw new Error("Encrypted PDFs are not supported.");
+    return reader;
+  }
+
+  /** The largest object number in use, plus one. */
+  get size(): number {
+    const declared = this.trailer.get("Size");
+    const used = Array.from(this.xref.keys(), (num) => num + 1);
+    return Math.max(typeof declared === "number" ? declared : 0, ...used);
+  }
+
+  private async readXref(offset: number, seen: Set<number>) {
+    if (seen.has(offset)) return;
+    seen.add(offset);
+    const parser = new PdfParser(this.data, offset);
+    parser.skipWhitespace();
+    let trailer: PdfDict;
+    if (pdfBytesMatch(this.data, parser.pos, "xref")) {
+      parser.pos += 4;
+      // Hybrid files mark objects kept in object streams as free in the table.
+      const free = new Set<number>();
+      for (;;) {
+        const token = parser.readToken();
+        if (token === "trailer") break;
+        const start = Number(token);
+        const count = Number(parser.readToken());
+        if (Number.isNaN(start) || Number.isNaN(count)) {
+          throw new Error("Damaged cross-reference table");
+        }
+        for (let i = 0; i < count; i++) {
+          const entryOffset = Number(parser.readToken());
+          parser.readToken();
+          const type = parser.readToken();
+          if (this.xref.has(start + i)) continue;
+          this.xref.set(start + i, type === "n" ? { offset: entryOffset } : null);
+          if (type !== "n") free.add(start + i);
+        }
+      }
+      const value = parser.parseValue();
+      if (!isPdfDict(value)) throw new Error("Damaged trailer");
+      trailer = value;
+      const hybrid = trailer.get("XRefStm");
+      if (typeof hybrid === "number") await this.readXrefStream(hybrid, free);
+    } else {
+      trailer = await this.readXrefStream(offset);
+    }
+    if (this.trailer.size === 0) this.trailer = trailer;
+    const prev = trailer.get("Prev");
+    if (typeof prev === "number") await this.readXref(prev, seen);
+  }
+
+  /** `overridable` are entries the stream may replace, i.e. free ones from its hybrid table. */
+  private async readXrefStream(offset: number, overridable?: Set<number>): Promise<PdfDict> {
+    const stream = await this.readObjectAt(offset);
+    if (!isPdfStream(stream)) throw new Error("Damaged cross-reference stream");
+    const { dict } = stream;
+    const data = await this.decodeStream(stream);
+    const widths = (dict.get("W") as number[]) ?? [1, 2, 1];
+    const size = dict.get("Size") as number;
+    const index = (dict.get("Index") as number[]) ?? [0, size];
+    const entryLength = widths[0] + widths[1] + widths[2];
+    let pos = 0;
+    const field = (width: number, fallback: number) => {
+      if (width === 0) return fallback;
+      let value = 0;
+      for (let i = 0; i < width; i++) value = value * 256 + data[pos++];
+      return value;
+    };
+    for (let i = 0; i < index.length; i += 2) {
+      for (let n = 0; n < index[i + 1] && pos + entryLength <= data.length; n++) {
+        const type = field(widths[0], 1);
+        const second = field(widths[1], 0);
+        const third = field(widths[2], 0);
+        const num = index[i] + n;
+        if (this.xref.has(num) && !overridable?.has(num)) continue;
+        if (type === 1) this.xref.set(num, { offset: second });
+        else if (type === 2) this.xref.set(num, { stream: second, index: third });
+        else this.xref.set(num, null);
+      }
+    }
+    return dict;
+  }
+
+  private async readObjectAt(offset: number): Promise<PdfValue | PdfStream> {
+    const parser = new PdfParser(this.data, offset);
+    parser.readToken();
+    parser.readToken();
+    if (parser.readToken() !== "obj") throw new Error(`No object at offset ${offset}`);
+    const value = parser.parseValue();
+    if (!isPdfDict(value)) return value;
+    const saved = parser.pos;
+    if (parser.readToken() !== "stream") {
+      parser.pos = saved;
+      return value;
+    }
+    let start = parser.pos;
+    if (this.data[start] === 13) start++;
+    if (this.data[start] === 10) start++;
+    let length = value.get("Length");
+    if (isPdfRef(length)) length = (await this.resolve(length)) as PdfValue;
+    let end = typeof length === "number" ? start + length : -1;
+    const after = new PdfParser(this.data, end);
+    if (end < 0 || end > this.data.length || after.readToken() !== "endstream") {
+      // Wrong or missing /Length: fall back to the endstream keyword.
+      const text = latin1(this.data.subarray(start));
+      end = start + text.indexOf("endstream");
+      while (end > start && (this.data[end - 1] === 10 || this.data[end - 1] === 13)) end--;
+    }
+    return { dict: value, data: this.data.subarray(start, end) };
+  }
+
+  async decodeStream(stream: PdfStream): Promise<Uint8Array> {
+    const filter = stream.dict.get("Filter");
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+    let params = stream.dict.get("DecodeParms");
+    if (Array.isArray(params)) params = params[0];
+    let data = stream.data;
+    for (const name of filters) {
+      if (!isPdfName(name, "FlateDecode")) {
+        throw new Error(`Unsupported PDF filter: ${isPdfName(name) ? name.name : "unknown"}`);
+      }
+      data = await inflate(data);
+    }
+    if (isPdfDict(params) && ((params.get("Predictor") as number) ?? 1) >= 10) {
+      data = undoPngPredictor(
+        data,
+        (params.get("Columns") as number) ?? 1,
+        (params.get("Colors") as number) ?? 1,
+        (params.get("BitsPerComponent") as number) ?? 8
+      );
+    }
+    return data;
+  }
+
+  async getObject(num: number): Promise<PdfValue | PdfStream> {
+    const entry = this.xref.get(num);
+    if (!entry) return null;
+    if ("offset" in entry) return this.readObjectAt(entry.offset);
+
+    let objectStream = this.objectStreams.get(entry.stream);
+    if (!objectStream) {
+      objectStream = (async () => {
+        const stream = await this.getObject(entry.stream);
+        if (!isPdfStream(stream)) throw new Error(`Object stream ${entry.stream} is missing`);
+        const data = await this.decodeStream(stream);
+        const first = stream.dict.get("First") as number;
+        const header = new PdfParser(data);
+        const offsets = new Map<number, number>();
+        for (let i = 0; i < (stream.dict.get("N") as number); i++) {
+          const objNum = Number(header.readToken());
+          offsets.set(objNum, first + Number(header.readToken()));
+        }
+        return { data, offsets };
+      })();
+      this.objectStreams.set(entry.stream, objectStream);
+    }
+    const { data, offsets } = await objectStream;
+    const offset = offsets.get(num);
+    return offset === undefined ? null : new PdfParser(data, offset).parseValue();
+  }
+
+  /** Follows references; streams resolve to their dictionary. */
+  async resolve(value: PdfValue | undefined): Promise<PdfValue> {
+    let current: PdfValue | PdfStream | undefined = value;
+    for (let depth = 0; isPdfRef(current as PdfValue) && depth < 10; depth++) {
+      current = await this.getObject((current as PdfRef).num);
+    }
+    if (isPdfStream(current)) return current.dict;
+    return (current as PdfValue) ?? null;
+  }
+
+  /** Page object references in page order. */
+  async pageRefs(): Promise<PdfRef[]> {
+    const root = await this.resolve(this.trailer.get("Root"));
+    if (!isPdfDict(root)) throw new Error("The PDF has no catalog.");
+    const refs: PdfRef[] = [];
+    const visit = async (ref: PdfValue | undefined, depth: number) => {
+      if (!isPdfRef(ref) || depth > 64) return;
+      const node = await this.resolve(ref);
+      // Skipping a node would shift every later page index.
+      if (!isPdfDict(node)) throw new Error(`Page tree object ${ref.num} could not be resolved.`);
+      const kids = node.get("Kids");
+      if (Array.isArray(kids)) {
+        for (const kid of kids) await visit(kid, depth + 1);
+      } else {
+        refs.push(ref);
+      }
+    };
+    await visit(root.get("Pages"), 0);
+    return refs;
+  }
+}
+
+function formatPdfNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return value.toFixed(4).replace(/0+$/, "").replace(/\.$/, "");
+}
+
+function serializePdfValue(value: PdfValue): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") return formatPdfNumber(value);
+  if (Array.isArray(value)) return `[${value.map(serializePdfValue).join(" ")}]`;
+  if (value instanceof Map) {
+    const entries = Array.from(value, ([key, item]) => {
+      return `${serializePdfName(key)} ${serializePdfValue(item)}`;
+    });
+    return `<<${entries.join(" ")}>>`;
+  }
+  if ("num" in value) return `${value.num} ${value.gen} R`;
+  if ("name" in value) return serializePdfName(value.name);
+  let hex = "";
+  for (let i = 0; i < value.bytes.length; i++) {
+    hex += value.bytes.charCodeAt(i).toString(16).padStart(2, "0");
+  }
+  return `<${hex}>`;
+}
+
+function serializePdfName(name: string): string {
+  return `/${name.replace(/[^!-~]|[()<>[\]{}/%#]/g, (char) =>
+    `#${char.charCodeAt(0).toString(16).padStart(2, "0")}`
+  )}`;
+}
+
+/** Text for /Contents: UTF-16BE with a byte order mark, which every reader understands. */
+function pdfTextString(text: string): PdfString {
+  let bytes = "\xfe\xff";
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return { bytes };
+}
+
+function decodePdfTextString(value: PdfValue | undefined): string {
+  if (!isPdfString(value)) return "";
+  const { bytes } = value;
+  if (bytes.startsWith("\xfe\xff")) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return text;
+  }
+  if (bytes.startsWith("\xef\xbb\xbf")) {
+    return new TextDecoder().decode(Uint8Array.from(bytes.slice(3), (c) => c.charCodeAt(0)));
+  }
+  return bytes;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/** Reads "D:YYYYMMDDHHmmSS" with an optional "Z" or "+HH'mm'" offset. */
+function parsePdfDate(value: string): Date | null {
+  const match = value.match(
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/
+  );
+  if (!match) return null;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00"] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const sign = match[7] === "-" ? -1 : match[7] === "+" ? 1 : 0;
+  const offset = sign * (Number(match[8] ?? 0) * 60 + Number(match[9] ?? 0));
+  return new Date(utc - offset * 60000);
+}
+
+/** A highlight in PDF user space, ready to be written as a /Highlight annotation. */
+interface PdfHighlightAnnotation {
+  pageIndex: number;
+  /** Eight numbers per marked line: top-left, top-right, bottom-left, bottom-right. */
+  quadPoints: number[];
+  /** RGB components between 0 and 1; null when the annotation has no color. */
+  color: [number, number, number] | null;
+  contents: string;
+  /** The /NM entry, which identifies the annotation across reads and writes. */
+  name: string;
+  modified: Date;
+  /**
+   * For annotations read from a file: the /NM entry, or the page and rounded
+   * QuadPoints when there is none, so rewritten files keep the same key.
+   */
+  key?: string;
+}
+
+/** The appearance readers show as is: the quads filled in multiply mode. */
+function highlightAppearance(quads: number[], color: number[], bbox: number[]): string {
+  const ops = [`/GS0 gs ${color.map(formatPdfNumber).join(" ")} rg`];
+  for (let i = 0; i + 7 < quads.length; i += 8) {
+    const [x1, y1, x2, y2, x3, y3, x4, y4] = quads.slice(i, i + 8).map(formatPdfNumber);
+    ops.push(`${x1} ${y1} m ${x2} ${y2} l ${x4} ${y4} l ${x3} ${y3} l h f`);
+  }
+  const content = ops.join("\n");
+  const dict =
+    `<</Type /XObject /Subtype /Form /BBox [${bbox.map(formatPdfNumber).join(" ")}] ` +
+    "/Resources <</ExtGState <</GS0 <</BM /Multiply /CA 1 /ca 1>>>>>> " +
+    `/Length ${content.length}>>`;
+  return `${dict}\nstream\n${content}\nendstream`;
+}
+
+/**
+ * Adds highlight annotations to a PDF as an incremental update: the original
+ * bytes stay as they are and the changed pages are appended after them.
+ * Annotations whose /NM is already on the page are skipped.
+ */
+async function addPdfHighlightAnnotations(
+  data: Uint8Array,
+  annotations: PdfHighlightAnnotation[]
+): Promise<{ data: Uint8Array; added: number }> {
+  const pdf = await PdfDocumentReader.open(data);
+  const pageRefs = await pdf.pageRefs();
+  const objects: { num: number; gen: number; body: string }[] = [];
+  let nextNum = pdf.size;
+  let added = 0;
+
+  const byPage = new Map<number, PdfHighlightAnnotation[]>();
+  annotations.forEach((annotation) => {
+    const list = byPage.get(annotation.pageIndex) ?? [];
+    list.push(annotation);
+    byPage.set(annotation.pageIndex, list);
+  });
+
+  for (const [pageIndex, list] of byPage) {
+    const pageRef = pageRefs[pageIndex];
+    if (!pageRef) throw new Error(`The PDF has no page ${pageIndex + 1}.`);
+    const page = await pdf.resolve(pageRef);
+    if (!isPdfDict(page)) throw new Error(`Page ${pageIndex + 1} could not be resolved.`);
+
+    const annotsValue = page.get("Annots");
+    const arrayRef = isPdfRef(annotsValue) ? annotsValue : null;
+    const resolved = arrayRef ? await pdf.resolve(arrayRef) : annotsValue;
+    const annots: PdfValue[] = Array.isArray(resolved) ? [...resolved] : [];
+    const existingNames = new Set<string>();
+    for (const annot of annots) {
+      const dict = await pdf.resolve(annot);
+      if (isPdfDict(dict)) existingNames.add(decodePdfTextString(dict.get("NM")));
+    }
+
+    const fresh = list.filter((annotation) => !existingNames.has(annotation.name));
+    if (fresh.length === 0) continue;
+    fresh.forEach((annotation) => {
+      const quads = annotation.quadPoints;
+      const xs = quads.filter((_, i) => i % 2 === 0);
+      const ys = quads.filter((_, i) => i % 2 === 1);
+      const rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+      const color = annotation.color ?? [1, 1, 0];
+      const annotNum = nextNum++;
+      const appearanceNum = nextNum++;
+      const annot: PdfDict = new Map<string, PdfValue>([
+        ["Type", { name: "Annot" }],
+        ["Subtype", { name: "Highlight" }],
+        ["Rect", rect],
+        ["QuadPoints", quads],
+        ["C", color],
+        ["CA", 1],
+        ["F", 4],
+        ["P", pageRef],
+        ["NM", pdfTextString(annotation.name)],
+        ["M", { bytes: pdfDate(annotation.modified) }],
+        ["AP", new Map<string, PdfValue>([["N", { num: appearanceNum, gen: 0 }]])],
+      ]);
+      if (annotation.contents) annot.set("Contents", pdfTextString(annotation.contents));
+      objects.push({ num: annotNum, gen: 0, body: serializePdfValue(annot) });
+      objects.push({
+        num: appearanceNum,
+        gen: 0,
+        body: highlightAppearance(quads, color, rect),
+      });
+      annots.push({ num: annotNum, gen: 0 });
+      added += 1;
+    });
+
+    if (arrayRef) {
+      objects.push({ num: arrayRef.num, gen: arrayRef.gen, body: serializePdfValue(annots) });
+    } else {
+      page.set("Annots", annots);
+      objects.push({ num: pageRef.num, gen: pageRef.gen, body: serializePdfValue(page) });
+    }
+  }
+  if (objects.length === 0) return { data, added: 0 };
+
+  const encoder = new TextEncoder();
+  const chunks: string[] = [data[data.length - 1] === 10 ? "" : "\n"];
+  let offset = data.length + chunks[0].length;
+  const offsets = new Map<number, { offset: number; gen: number }>();
+  objects.forEach(({ num, gen, body }) => {
+    const text = `${num} ${gen} obj\n${body}\nendobj\n`;
+    offsets.set(num, { offset, gen });
+    chunks.push(text);
+    offset += encoder.encode(text).length;
+  });
+
+  const xref = ["xref"];
+  Array.from(offsets.keys())
+    .sort((a, b) => a - b)
+    .forEach((num) => {
+      const entry = offsets.get(num) as { offset: number; gen: number };
+      const offsetField = String(entry.offset).padStart(10, "0");
+      xref.push(`${num} 1`, `${offsetField} ${String(entry.gen).padStart(5, "0")} n\r`);
+    });
+  const trailer: PdfDict = new Map<string, PdfValue>([["Size", nextNum]]);
+  ["Root", "Info", "ID"].forEach((key) => {
+    const value = pdf.trailer.get(key);
+    if (value !== undefined) trailer.set(key, value);
+  });
+  trailer.set("Prev", pdf.startXref);
+  chunks.push(
+    `${xref.join("\n")}\ntrailer\n${serializePdfValue(trailer)}\nstartxref\n${offset}\n%%EOF\n`
+  );
+
+  const tail = encoder.encode(chunks.join(""));
+  const out = new Uint8Array(data.length + tail.length);
+  out.set(data, 0);
+  out.set(tail, data.length);
+  return { data: out, added };
+}
+
+/** Highlight annotations found in a PDF, in PDF user space. */
+async function readPdfHighlightAnnotations(
+  data: Uint8Array
+): Promise<PdfHighlightAnnotation[]> {
+  const pdf = await PdfDocumentReader.open(data);
+  const pageRefs = await pdf.pageRefs();
+  const found: PdfHighlightAnnotation[] = [];
+  for (const [pageIndex, pageRef] of pageRefs.entries()) {
+    const page = await pdf.resolve(pageRef);
+    if (!isPdfDict(page)) throw new Error(`Page ${pageIndex + 1} could not be resolved.`);
+    const annots = await pdf.resolve(page.get("Annots"));
+    if (!Array.isArray(annots)) continue;
+    for (const item of annots) {
+      const annot = await pdf.resolve(item);
+      if (!isPdfDict(annot) || !isPdfName(annot.get("Subtype"), "Highlight")) continue;
+      const numbers = async (key: string) => {
+        const value = await pdf.resolve(annot.get(key));
+        return Array.isArray(value) ? value.filter((v): v is number => typeof v === "number") : [];
+      };
+      let quadPoints = await numbers("QuadPoints");
+      if (quadPoints.length < 8) {
+        const [x1, y1, x2, y2] = await numbers("Rect");
+        if (x2 === undefined) continue;
+        quadPoints = [x1, y2, x2, y2, x1, y1, x2, y1];
+      }
+      const text = async (key: string) => decodePdfTextString(await pdf.resolve(annot.get(key)));
+      const c = await numbers("C");
+      let color: [number, number, number] | null = null;
+      if (c.length === 1) color = [c[0], c[0], c[0]];
+      else if (c.length === 3) color = [c[0], c[1], c[2]];
+      else if (c.length === 4) {
+        color = [(1 - c[0]) * (1 - c[3]), (1 - c[1]) * (1 - c[3]), (1 - c[2]) * (1 - c[3])];
+      }
+      const quads = quadPoints.slice(0, quadPoints.length - (quadPoints.length % 8));
+      const name = await text("NM");
+      found.push({
+        pageIndex,
+        quadPoints: quads,
+        color,
+        contents: await text("Contents"),
+        name,
+        modified: parsePdfDate(await text("M")) ?? new Date(),
+        key: name || `p${pageIndex}:${quads.map(Math.round).join(",")}`,
       });
+    }
+  }
+  return found;
+}
+
+/** `#rgb` / `#rrggbb` as PDF color components, or null for other CSS colors. */
+function parseHexColor(color: string): [number, number, number] | null {
+  let hex = color.trim().replace(/^#/, "");
+  if (/^[0-9a-fA-F]{3}$/.test(hex)) hex = hex.replace(/./g, (c) => c + c);
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) return null;
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => c / 255) as [
+    number,
+    number,
+    number
+  ];
+}
+
+/** Converts QuadPoints in PDF user space to rects normalized to the rendered page. */
+function quadsToRects(quadPoints: number[], viewport: PdfViewport): HighlightRect[] {
+  const rects: HighlightRect[] = [];
+  for (let i = 0; i + 8 <= quadPoints.length; i += 8) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let j = 0; j < 8; j += 2) {
+      const [x, y] = viewport.convertToViewportPoint(quadPoints[i + j], quadPoints[i + j + 1]);
+      xs.push(x);
+      ys.push(y);
+    }
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    rects.push({
+      x: left / viewport.width,
+      y: top / viewport.height,
+      w: (Math.max(...xs) - left) / viewport.width,
+      h: (Math.max(...ys) - top) / viewport.height,
+    });
+  }
+  return rects;
+}
+
+/**
+ * The page text covered by a highlight's quads. Items count when their middle
+ * line falls inside a quad, and are cut to the covered width.
+ */
+function textUnderQuads(items: PdfTextItem[], quadPoints: number[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i + 8 <= quadPoints.length; i += 8) {
+    const xs = [0, 2, 4, 6].map((j) => quadPoints[i + j]);
+    const ys = [1, 3, 5, 7].map((j) => quadPoints[i + j]);
+    const [left, right] = [Math.min(...xs), Math.max(...xs)];
+    const [bottom, top] = [Math.min(...ys), Math.max(...ys)];
+    const line: string[] = [];
+    items.forEach((item) => {
+      if (typeof item.str !== "string" || !item.transform || !item.width) return;
+      const x = item.transform[4];
+      const middle = item.transform[5] + item.height * 0.3;
+      if (middle < bottom || middle > top || x > right || x + item.width < left) return;
+      const start = Math.max(0, (left - x) / item.width);
+      const end = Math.min(1, (right - x) / item.width);
+      line.push(
+        item.str.slice(Math.round(start * item.str.length), Math.round(end * item.str.length))
+      );
     });
+    const text = line.join("").replace(/\s+/g, " ").trim();
+    if (text) parts.push(text);
   }
+  return parts.join(" ");
 }
 
 class PdfFlashcardsSettingTab extends PluginSettingTab {
@@ -584,48 +4809,675 @@ class PdfFlashcardsSettingTab extends PluginSettingTab {
     this.plugin = plugin;
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName("AI provider")
+      .setDesc("Where flashcard generation requests are sent.")
+      .addDropdown((dropdown) => {
+        PROVIDERS.forEach(({ id, label }) => dropdown.addOption(id, label));
+        dropdown.setValue(this.plugin.settings.provider).onChange(async (value) => {
+          this.plugin.settings.provider = value as ProviderId;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    this.displayProviderSettings(containerEl);
+
+    new Setting(containerEl)
+      .setName("Storage folder")
+      .setDesc("Hidden folder for highlights, flashcards, and progress.")
+      .addText((text) =>
+        text
+          .setPlaceholder(".flashcards")
+          .setValue(this.plugin.settings.storageFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.storageFolder = value.trim() || ".flashcards";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Export folder")
+      .setDesc("Where exported Anki packages and CSV/TSV files are written. Empty means the vault root.")
+      .addText((text) =>
+        text.setValue(this.plugin.settings.exportFolder).onChange(async (value) => {
+          this.plugin.settings.exportFolder = value.trim().replace(/^\/+|\/+$/g, "");
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Include scheduling in Anki packages")
+      .setDesc("Reviewed cards keep their interval, ease and due date instead of arriving as new.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.exportScheduling).onChange(async (value) => {
+          this.plugin.settings.exportScheduling = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Sync flashcards to notes")
+      .setDesc(
+        "Keep one Markdown note per source with its cards. Edits in those notes are saved back to the cards."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.syncNotes).onChange(async (value) => {
+          this.plugin.settings.syncNotes = value;
+          await this.plugin.saveSettings();
+          if (value) await this.plugin.writeAllCardNotes();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Flashcard notes folder")
+      .setDesc("Run \"Rewrite flashcard notes\" after changing it to fill the new folder.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Flashcards")
+          .setValue(this.plugin.settings.syncFolder)
+          .onChange(async (value) => {
+            const folder = value.trim().replace(/^\/+|\/+$/g, "");
+            this.plugin.settings.syncFolder = folder || "Flashcards";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Surrounding context")
+      .setDesc(
+        "Characters of PDF text before and after each highlight, plus its section heading, " +
+          "sent along to explain fragments. 0 turns this off."
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, MAX_STORED_CONTEXT, 100)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.contextChars)
+          .onChange(async (value) => {
+            this.plugin.settings.contextChars = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Cloze cards")
+      .setDesc("Let the model write cloze deletions for definitions and formulas.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.allowCloze).onChange(async (value) => {
+          this.plugin.settings.allowCloze = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Review before saving")
+      .setDesc("Show generated flashcards for editing before they are saved.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.reviewBeforeSave).onChange(async (value) => {
+          this.plugin.settings.reviewBeforeSave = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Tokens per batch")
+      .setDesc("Highlights are sent in batches of roughly this many tokens.")
+      .addText((text) =>
+        text
+          .setPlaceholder("3000")
+          .setValue(String(this.plugin.settings.batchTokenBudget))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.batchTokenBudget = Number.isNaN(parsed) ? 3000 : Math.max(200, parsed);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Parallel requests")
+      .setDesc("How many batches are generated at the same time.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 6, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.generationConcurrency)
+          .onChange(async (value) => {
+            this.plugin.settings.generationConcurrency = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("New cards per day")
+      .setDesc("How many unseen flashcards are added to each day's study queue.")
+      .addText((text) =>
+        text
+          .setPlaceholder("20")
+          .setValue(String(this.plugin.settings.newCardsPerDay))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.newCardsPerDay = Number.isNaN(parsed) ? 20 : Math.max(0, parsed);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displayProfiles(containerEl);
+    this.displayUsage(containerEl);
+    this.displayAnnotationExport(containerEl);
+    this.displayPalette(containerEl);
+  }
+
+  private displayProfiles(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Generation profiles")
+      .setDesc(
+        `Prompt templates for different kinds of material. Placeholders: ${PROFILE_PLACEHOLDERS.map(
+          (name) => `{{${name}}}`
+        ).join(", ")}.`
+      )
+      .setHeading();
+
+    const settings = this.plugin.settings;
+    const profiles = settings.profiles;
+    const save = async (redraw: boolean) => {
+      await this.plugin.saveSettings();
+      if (redraw) this.display();
+    };
+
+    new Setting(containerEl)
+      .setName("Default profile")
+      .setDesc("Used by the generate command; pick another with \"Generate flashcards with profile\".")
+      .addDropdown((dropdown) => {
+        profiles.forEach((profile) => dropdown.addOption(profile.id, profile.name));
+        dropdown.setValue(this.plugin.defaultProfile().id).onChange(async (value) => {
+          settings.defaultProfileId = value;
+          await save(false);
+        });
+      });
+
+    profiles.forEach((profile, index) => {
+      new Setting(containerEl)
+        .setName(`Profile ${index + 1}`)
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(profile.name)
+            .onChange(async (value) => {
+              profile.name = value.trim() || `Profile ${index + 1}`;
+              await save(false);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove profile")
+            .setDisabled(profiles.length === 1)
+            .onClick(async () => {
+              if (profiles.length === 1) return;
+              profiles.splice(index, 1);
+              await save(true);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Model")
+        .setDesc("Leave empty to use the provider's model.")
+        .addText((text) =>
+          text
+            .setPlaceholder("Provider default")
+            .setValue(profile.model)
+            .onChange(async (value) => {
+              profile.model = value.trim();
+              await save(false);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Temperature")
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 1, 0.05)
+            .setDynamicTooltip()
+            .setValue(profile.temperature)
+            .onChange(async (value) => {
+              profile.temperature = value;
+              await save(false);
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Cards per highlight")
+        .setDesc("How many cards the model should aim for per highlight.")
+        .addText((text) =>
+          text
+            .setPlaceholder("1")
+            .setValue(String(profile.cardsPerHighlight))
+            .onChange(async (value) => {
+              const parsed = parseInt(value, 10);
+              profile.cardsPerHighlight = Number.isNaN(parsed) ? 1 : Math.max(1, parsed);
+              await save(false);
+            })
+        );
+
+      new Setting(containerEl).setName("System prompt").addTextArea((text) => {
+        text.setValue(profile.systemPrompt).onChange(async (value) => {
+          profile.systemPrompt = value;
+          await save(false);
+        });
+        text.inputEl.rows = 2;
+        text.inputEl.addClass("study-assist-prompt");
+      });
+
+      new Setting(containerEl)
+        .setName("Prompt template")
+        .setDesc("The answer format and source numbering rules are added automatically.")
+        .addTextArea((text) => {
+          text.setValue(profile.template).onChange(async (value) => {
+            profile.template = value;
+            await save(false);
+          });
+          text.inputEl.rows = 6;
+          text.inputEl.addClass("study-assist-prompt");
+        });
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add profile").onClick(async () => {
+        profiles.push({
+          ...DEFAULT_PROFILE,
+          id: `profile-${Date.now().toString(36)}`,
+          name: "New profile",
+        });
+        await save(true);
+      })
+    );
+  }
+
+  private displayProviderSettings(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    if (settings.provider === "openai") {
+      new Setting(containerEl)
+        .setName("Your OpenAI API key")
+        .setDesc("Stored locally in your Obsidian settings.")
+        .addText((text) =>
+          text
+            .setPlaceholder("Example: sk-...")
+            .setValue(settings.apiKey)
+            .onChange(async (value) => {
+              settings.apiKey = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Model")
+        .setDesc("Default: gpt-5.1")
+        .addText((text) =>
+          text
+            .setPlaceholder("Example: gpt-5.1")
+            .setValue(settings.model)
+            .onChange(async (value) => {
+              settings.model = value.trim() || "gpt-5.1";
+              await this.plugin.saveSettings();
+            })
+        );
+      return;
+    }
+
+    const config =
+      settings.provider === "anthropic"
+        ? settings.anthropic
+        : settings.provider === "ollama"
+          ? settings.ollama
+          : settings.openaiCompatible;
+    const defaults = DEFAULT_SETTINGS[
+      settings.provider === "anthropic"
+        ? "anthropic"
+        : settings.provider === "ollama"
+          ? "ollama"
+          : "openaiCompatible"
+    ];
 
     new Setting(containerEl)
-      .setName("Your OpenAI API key")
-      .setDesc("Stored locally in your Obsidian settings.")
+      .setName("Base URL")
+      .setDesc(
+        settings.provider === "openai-compatible"
+          ? "The endpoint that serves /chat/completions, e.g. https://api.openai.com/v1."
+          : `Default: ${defaults.baseUrl}`
+      )
       .addText((text) =>
         text
-          .setPlaceholder("Example: sk-...")
-          .setValue(this.plugin.settings.apiKey)
+          .setPlaceholder(defaults.baseUrl)
+          .setValue(config.baseUrl)
           .onChange(async (value) => {
-            this.plugin.settings.apiKey = value.trim();
+            config.baseUrl = value.trim() || defaults.baseUrl;
             await this.plugin.saveSettings();
           })
       );
 
+    if (settings.provider !== "ollama") {
+      new Setting(containerEl)
+        .setName("API key")
+        .setDesc(
+          settings.provider === "anthropic"
+            ? "Stored locally in your Obsidian settings."
+            : "Optional for local servers. Stored locally in your Obsidian settings."
+        )
+        .addText((text) =>
+          text.setValue(config.apiKey).onChange(async (value) => {
+            config.apiKey = value.trim();
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    if (settings.provider === "openai-compatible") {
+      new Setting(containerEl)
+        .setName("Structured output")
+        .setDesc("Send a JSON schema as response_format. Turn off if the server rejects it.")
+        .addToggle((toggle) =>
+          toggle.setValue(config.structuredOutput !== false).onChange(async (value) => {
+            config.structuredOutput = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Model")
-      .setDesc("Default: gpt-5.1")
+      .setDesc(defaults.model ? `Default: ${defaults.model}` : "The model name the server expects.")
       .addText((text) =>
         text
-          .setPlaceholder("Example: gpt-5.1")
-          .setValue(this.plugin.settings.model)
+          .setPlaceholder(defaults.model || "Example: llama-3.1-8b-instruct")
+          .setValue(config.model)
           .onChange(async (value) => {
-            this.plugin.settings.model = value.trim() || "gpt-5.1";
+            config.model = value.trim() || defaults.model;
             await this.plugin.saveSettings();
           })
       );
+  }
 
+  private displayUsage(containerEl: HTMLElement) {
     new Setting(containerEl)
-      .setName("Storage folder")
-      .setDesc("Hidden folder for highlights, flashcards, and progress.")
+      .setName("Usage and cost")
+      .setDesc("Tokens used by generation requests, from the usage log in the storage folder.")
+      .setHeading();
+
+    const settings = this.plugin.settings;
+    new Setting(containerEl)
+      .setName("Monthly limit")
+      .setDesc("Warn before a run that would exceed this many US dollars this month. 0 turns it off.")
       .addText((text) =>
         text
-          .setPlaceholder(".flashcards")
-          .setValue(this.plugin.settings.storageFolder)
+          .setPlaceholder("0")
+          .setValue(String(settings.monthlyBudget))
           .onChange(async (value) => {
-            this.plugin.settings.storageFolder = value.trim() || ".flashcards";
+            const parsed = parseFloat(value);
+            settings.monthlyBudget = Number.isNaN(parsed) ? 0 : Math.max(0, parsed);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const summaryEl = containerEl.createDiv({ cls: "study-assist-usage" });
+    void this.renderUsageSummary(summaryEl);
+
+    new Setting(containerEl)
+      .setName("Prices")
+      .setDesc(
+        "US dollars per million input and output tokens. A name also matches longer model names " +
+          "that start with it. Models without a price count as free."
+      );
+    settings.prices.forEach((price, index) => {
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder("Model")
+            .setValue(price.model)
+            .onChange(async (value) => {
+              price.model = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Input")
+            .setValue(String(price.input))
+            .onChange(async (value) => {
+              price.input = Math.max(0, parseFloat(value) || 0);
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Output")
+            .setValue(String(price.output))
+            .onChange(async (value) => {
+              price.output = Math.max(0, parseFloat(value) || 0);
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove price")
+            .onClick(async () => {
+              settings.prices.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add price").onClick(async () => {
+        settings.prices.push({ model: "", input: 0, output: 0 });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  private async renderUsageSummary(el: HTMLElement) {
+    const entries = await this.plugin.loadUsageLog();
+    if (entries.length === 0) {
+      el.setText("No generation requests recorded yet.");
+      return;
+    }
+
+    const prices = this.plugin.settings.prices;
+    const rows = new Map<
+      string,
+      { month: string; model: string; requests: number; input: number; output: number }
+    >();
+    entries.forEach((entry) => {
+      const month = dayKey(new Date(entry.timestamp)).slice(0, 7);
+      const key = `${month}\u0000${entry.model}`;
+      const row = rows.get(key) ?? { month, model: entry.model, requests: 0, input: 0, output: 0 };
+      row.requests += 1;
+      row.input += entry.inputTokens;
+      row.output += entry.outputTokens;
+      rows.set(key, row);
+    });
+
+    const table = el.createEl("table", { cls: "study-assist-stats-table" });
+    const head = table.createEl("tr");
+    ["Month", "Model", "Requests", "Input tokens", "Output tokens", "Cost"].forEach((text) =>
+      head.createEl("th", { text })
+    );
+    Array.from(rows.values())
+      .sort((a, b) => b.month.localeCompare(a.month) || a.model.localeCompare(b.model))
+      .slice(0, 24)
+      .forEach((row) => {
+        const tr = table.createEl("tr");
+        const cost = usageCost(prices, row.model, row.input, row.output);
+        [
+          row.month,
+          row.model,
+          String(row.requests),
+          row.input.toLocaleString(),
+          row.output.toLocaleString(),
+          cost === null ? "—" : formatCost(cost),
+        ].forEach((text) => tr.createEl("td", { text }));
+      });
+
+    const spent = await this.plugin.monthlySpend();
+    const budget = this.plugin.settings.monthlyBudget;
+    el.createDiv({
+      text:
+        budget > 0
+          ? `This month: ${formatCost(spent)} of ${formatCost(budget)}`
+          : `This month: ${formatCost(spent)}`,
+      cls: "study-assist-usage-total",
+    });
+  }
+
+  private displayAnnotationExport(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Annotation export")
+      .setDesc("Layout of the \"<PDF name> Annotations\" note.")
+      .setHeading();
+
+    const settings = this.plugin.settings;
+    new Setting(containerEl)
+      .setName("Template")
+      .setDesc(
+        "One annotation. Fields: {{text}}, {{note}}, {{color}}, {{page}}, {{pages}}, {{pageLinks}}, " +
+          "{{date}} and {{link}}. {{#note}}...{{/note}} is left out when the field is empty."
+      )
+      .addTextArea((text) => {
+        text.setValue(settings.annotationTemplate).onChange(async (value) => {
+          settings.annotationTemplate = value;
+          await this.plugin.saveSettings();
+        });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass("study-assist-prompt");
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon("rotate-ccw")
+          .setTooltip("Restore default template")
+          .onClick(async () => {
+            settings.annotationTemplate = DEFAULT_ANNOTATION_TEMPLATE;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
+
+    new Setting(containerEl).setName("Group by").addDropdown((dropdown) =>
+      dropdown
+        .addOption("color", "Color")
+        .addOption("page", "Page")
+        .addOption("date", "Date")
+        .addOption("none", "Nothing (page order)")
+        .setValue(settings.annotationGrouping)
+        .onChange(async (value) => {
+          settings.annotationGrouping = value as AnnotationGrouping;
+          await this.plugin.saveSettings();
+        })
+    );
+
+    new Setting(containerEl)
+      .setName("Keep my edits")
+      .setDesc(
+        "Only replace the text between the %% study-assist %% markers, so anything written around it survives."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(settings.annotationManagedRegion).onChange(async (value) => {
+          settings.annotationManagedRegion = value;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayPalette(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Highlight palette")
+      .setDesc("Categories shown in the PDF toolbar, in this order.")
+      .setHeading();
+
+    const palette = this.plugin.settings.palette;
+    const savePalette = async (redraw: boolean) => {
+      await this.plugin.saveSettings();
+      this.plugin.refreshPdfControllers();
+      if (redraw) this.display();
+    };
+
+    palette.forEach((category, index) => {
+      new Setting(containerEl)
+        .addColorPicker((picker) =>
+          picker.setValue(category.color).onChange(async (value) => {
+            category.color = value;
+            await savePalette(false);
+          })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(category.name)
+            .onChange(async (value) => {
+              category.name = value.trim() || category.id;
+              await savePalette(false);
+            })
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Feeds flashcard generation")
+            .setValue(category.flashcards)
+            .onChange(async (value) => {
+              category.flashcards = value;
+              await savePalette(false);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              if (index === 0) return;
+              palette.splice(index - 1, 0, ...palette.splice(index, 1));
+              await savePalette(true);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === palette.length - 1)
+            .onClick(async () => {
+              if (index === palette.length - 1) return;
+              palette.splice(index + 1, 0, ...palette.splice(index, 1));
+              await savePalette(true);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove category")
+            .setDisabled(palette.length === 1)
+            .onClick(async () => {
+              if (palette.length === 1) return;
+              palette.splice(index, 1);
+              await savePalette(true);
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add category").onClick(async () => {
+        palette.push({
+          id: `category-${Date.now().toString(36)}`,
+          name: "New category",
+          color: FALLBACK_HIGHLIGHT_COLOR,
+          flashcards: false,
+        });
+        await savePalette(true);
+      })
+    );
   }
 }
 
@@ -633,6 +5485,11 @@ export default class PdfFlashcardsPlugin extends Plugin {
   settings: PluginSettings;
   private pdfControllers = new WeakMap<WorkspaceLeaf, PdfLeafController>();
   private progressCache?: ProgressFile;
+  /** What the plugin last wrote to each synced note, so its own writes aren't read back. */
+  private syncedNotes = new Map<string, string>();
+  private noteSyncTimers = new Map<string, number>();
+  /** The note whose edits are being saved; it is left as the user typed it. */
+  private applyingNotePath: string | null = null;
 
   async onload() {
     await this.loadSettings();
@@ -641,6 +5498,7 @@ export default class PdfFlashcardsPlugin extends Plugin {
 
     this.registerView(FLASHCARD_VIEW_TYPE, (leaf) => new FlashcardView(leaf, this));
     this.registerView(FLASHCARD_MANAGE_VIEW_TYPE, (leaf) => new FlashcardManageView(leaf, this));
+    this.registerView(STATS_VIEW_TYPE, (leaf) => new FlashcardStatsView(leaf, this));
 
     this.addCommand({
       id: "generate-flashcards",
@@ -648,24 +5506,174 @@ export default class PdfFlashcardsPlugin extends Plugin {
       callback: () => void this.generateFlashcardsFromActivePdf(),
     });
 
+    this.addCommand({
+      id: "generate-flashcards-with-profile",
+      name: "Generate flashcards with profile...",
+      callback: () =>
+        new ProfileModal(this.app, this.settings.profiles, (profile) => {
+          void this.generateFlashcardsFromActivePdf(profile);
+        }).open(),
+    });
+
+    this.addCommand({
+      id: "generate-flashcards-from-note-highlights",
+      name: "Generate flashcards from note highlights",
+      callback: () => void this.generateFlashcardsFromNote("highlights"),
+    });
+
+    this.addCommand({
+      id: "generate-flashcards-from-selection",
+      name: "Generate flashcards from selection",
+      callback: () => void this.generateFlashcardsFromNote("selection"),
+    });
+
+    this.addCommand({
+      id: "generate-flashcards-from-section",
+      name: "Generate flashcards from current heading section",
+      callback: () => void this.generateFlashcardsFromNote("section"),
+    });
+
     this.addCommand({
       id: "open-flashcards",
       name: "Open flashcard study view",
       callback: () => void this.openFlashcardView(),
     });
 
+    this.addCommand({
+      id: "study-deck",
+      name: "Study a flashcard deck",
+      callback: () => void this.pickStudyScope("deck"),
+    });
+
+    this.addCommand({
+      id: "study-tag",
+      name: "Study flashcards with a tag",
+      callback: () => void this.pickStudyScope("tag"),
+    });
+
+    this.addCommand({
+      id: "study-current-pdf",
+      name: "Study flashcards from the current PDF",
+      callback: () => {
+        const file = this.getActivePdfFile();
+        if (!file) {
+          new Notice("Open a PDF first.");
+          return;
+        }
+        void this.openFlashcardView({ kind: "source", sourcePath: file.path });
+      },
+    });
+
     this.addCommand({
       id: "manage-flashcards",
       name: "Open flashcard manager",
       callback: () => void this.openFlashcardManageView(),
     });
 
+    this.addCommand({
+      id: "export-flashcards-apkg",
+      name: "Export flashcards to Anki package (.apkg)",
+      callback: () => void this.pickExportScope("apkg"),
+    });
+
+    this.addCommand({
+      id: "export-flashcards-csv",
+      name: "Export flashcards to CSV",
+      callback: () => void this.pickExportScope("csv"),
+    });
+
+    this.addCommand({
+      id: "export-flashcards-tsv",
+      name: "Export flashcards to TSV",
+      callback: () => void this.pickExportScope("tsv"),
+    });
+
+    this.addCommand({
+      id: "import-flashcards",
+      name: "Import flashcards from CSV/TSV",
+      callback: () => this.pickImportFile(),
+    });
+
+    this.addCommand({
+      id: "rewrite-flashcard-notes",
+      name: "Rewrite flashcard notes",
+      callback: () => {
+        if (!this.settings.syncNotes) {
+          new Notice("Turn on \"Sync flashcards to notes\" in the settings first.");
+          return;
+        }
+        void this.writeAllCardNotes();
+      },
+    });
+
+    this.addCommand({
+      id: "find-duplicate-flashcards",
+      name: "Find duplicate flashcards",
+      callback: () => void this.openFlashcardManageView(true),
+    });
+
+    this.addCommand({
+      id: "open-flashcard-stats",
+      name: "Open flashcard statistics",
+      callback: () => void this.openStatsView(),
+    });
+
     this.addCommand({
       id: "export-pdf-annotations",
       name: "Export current PDF annotations to Markdown",
       callback: () => void this.exportAnnotationsFromActivePdf(),
     });
 
+    this.addCommand({
+      id: "export-folder-annotations",
+      name: "Export annotations for all PDFs in folder",
+      callback: () => this.pickAnnotationFolder(),
+    });
+
+    this.addCommand({
+      id: "write-highlights-to-pdf-copy",
+      name: "Write highlights into a copy of the PDF",
+      callback: () => void this.writeHighlightsToPdf(false),
+    });
+
+    this.addCommand({
+      id: "write-highlights-to-pdf",
+      name: "Write highlights into the PDF",
+      callback: () => {
+        if (!this.getActivePdfFile()) {
+          new Notice("Open a PDF first.");
+          return;
+        }
+        new ConfirmModal(
+          this.app,
+          "Write highlights into the PDF",
+          "Highlights are appended to the PDF file as standard annotations, so other readers " +
+            "show them too. Obsidian's viewer will then show them twice.",
+          "Write",
+          (confirmed) => {
+            if (confirmed) void this.writeHighlightsToPdf(true);
+          }
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "import-pdf-annotations",
+      name: "Import highlights from PDF annotations",
+      callback: () => void this.importPdfAnnotations(),
+    });
+
+    this.addCommand({
+      id: "generate-study-guide",
+      name: "Generate study guide from PDF highlights",
+      callback: () => void this.generateStudyGuideFromActivePdf(),
+    });
+
+    this.registerObsidianProtocolHandler(SOURCE_PROTOCOL_ACTION, (params) => {
+      if (!params.file) return;
+      void this.revealSource(params.file, params.highlight);
+    });
+
     this.addRibbonIcon("sparkles", "Generate flashcards", () =>
       void this.generateFlashcardsFromActivePdf()
     );
@@ -686,6 +5694,22 @@ export default class PdfFlashcardsPlugin extends Plugin {
       })
     );
 
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (!(file instanceof TFile) || !this.isCardNote(file)) return;
+        // Obsidian saves while the user is still typing; wait for a pause.
+        const timer = this.noteSyncTimers.get(file.path);
+        if (timer) window.clearTimeout(timer);
+        this.noteSyncTimers.set(
+          file.path,
+          window.setTimeout(() => {
+            this.noteSyncTimers.delete(file.path);
+            void this.applyCardNoteEdits(file);
+          }, 1000)
+        );
+      })
+    );
+
     this.app.workspace.iterateAllLeaves((leaf) => {
       this.maybeAttachToPdfLeaf(leaf);
     });
@@ -693,6 +5717,56 @@ export default class PdfFlashcardsPlugin extends Plugin {
 
   onunload() {
     this.pdfControllers = new WeakMap();
+    this.noteSyncTimers.forEach((timer) => window.clearTimeout(timer));
+    this.noteSyncTimers.clear();
+  }
+
+  async revealCardSource(card: Flashcard) {
+    await this.revealSource(card.sourcePath, card.highlightIds);
+  }
+
+  /**
+   * Opens the PDF at the page of the first highlight that still exists and
+   * briefly flashes it.
+   */
+  async revealSource(sourcePath: string, highlightIds?: string | string[]) {
+    const file = this.app.vault.getAbstractFileByPath(sourcePath);
+    if (!(file instanceof TFile)) {
+      new Notice(`Source not found: ${sourcePath}`);
+      return;
+    }
+
+    const ids = typeof highlightIds === "string" ? [highlightIds] : highlightIds ?? [];
+    if (file.extension === "md") {
+      // Note sources are link subpaths: "^blockid" or "#Heading".
+      const subpath = ids[0] ? `#${ids[0].replace(/^#/, "")}` : "";
+      await this.app.workspace.openLinkText(`${file.path}${subpath}`, "", false);
+      return;
+    }
+    const highlights = await this.loadHighlights(file.path);
+    const highlight = ids
+      .map((id) => highlights.find((h) => h.id === id))
+      .find((h): h is Highlight => !!h);
+    const page = highlight?.pages[0]?.page;
+    const subpath = page !== undefined ? `#page=${page + 1}` : "";
+    await this.app.workspace.openLinkText(`${file.path}${subpath}`, "", false);
+
+    if (!highlight) return;
+    const leaf = this.app.workspace
+      .getLeavesOfType("pdf")
+      .find((l) => l.view instanceof FileView && l.view.file?.path === file.path);
+    if (!leaf) return;
+    this.maybeAttachToPdfLeaf(leaf);
+    this.pdfControllers.get(leaf)?.flashHighlight(highlight.id);
+  }
+
+  private buildSourceUri(sourcePath: string, highlightId?: string): string {
+    const params = new URLSearchParams({
+      vault: this.app.vault.getName(),
+      file: sourcePath,
+    });
+    if (highlightId) params.set("highlight", highlightId);
+    return `obsidian://${SOURCE_PROTOCOL_ACTION}?${params.toString().replace(/\+/g, "%20")}`;
   }
 
   private maybeAttachToPdfLeaf(leaf: WorkspaceLeaf) {
@@ -712,12 +5786,71 @@ export default class PdfFlashcardsPlugin extends Plugin {
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    if (!Array.isArray(this.settings.palette) || this.settings.palette.length === 0) {
+      this.settings.palette = DEFAULT_PALETTE;
+    }
+    this.settings.palette = this.settings.palette.map((c) => ({ ...c }));
+    this.settings.openaiCompatible = {
+      ...DEFAULT_SETTINGS.openaiCompatible,
+      ...this.settings.openaiCompatible,
+    };
+    this.settings.anthropic = { ...DEFAULT_SETTINGS.anthropic, ...this.settings.anthropic };
+    this.settings.ollama = { ...DEFAULT_SETTINGS.ollama, ...this.settings.ollama };
+    if (!Array.isArray(this.settings.profiles) || this.settings.profiles.length === 0) {
+      this.settings.profiles = DEFAULT_SETTINGS.profiles;
+    }
+    this.settings.profiles = this.settings.profiles.map((p) => ({ ...DEFAULT_PROFILE, ...p }));
+    if (!Array.isArray(this.settings.prices)) this.settings.prices = DEFAULT_SETTINGS.prices;
+    this.settings.prices = this.settings.prices.map((price) => ({ ...price }));
+  }
+
+  /** The profile used when a run doesn't pick one; falls back to the first. */
+  defaultProfile(): GenerationProfile {
+    const profiles = this.settings.profiles;
+    return profiles.find((p) => p.id === this.settings.defaultProfileId) ?? profiles[0];
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
   }
 
+  refreshPdfControllers() {
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      this.pdfControllers.get(leaf)?.refreshPalette();
+    });
+  }
+
+  /**
+   * Resolves a stored highlight color to its palette category. Highlights whose
+   * category was removed from the palette fall back to the built-in defaults so
+   * they keep rendering.
+   */
+  categoryFor(color: HighlightColor): HighlightCategory {
+    const category =
+      this.settings.palette.find((c) => c.id === color) ??
+      DEFAULT_PALETTE.find((c) => c.id === color);
+    if (category) return category;
+    return {
+      id: color,
+      name: color.charAt(0).toUpperCase() + color.slice(1),
+      color: FALLBACK_HIGHLIGHT_COLOR,
+      flashcards: false,
+    };
+  }
+
+  colorFor(color: HighlightColor): string {
+    return this.categoryFor(color).color;
+  }
+
+  isFlashcardCategory(color: HighlightColor): boolean {
+    return this.settings.palette.find((c) => c.id === color)?.flashcards ?? false;
+  }
+
+  isFlashcardHighlight(highlight: Highlight): boolean {
+    const category = this.settings.palette.find((c) => c.id === highlight.color);
+    return category ? category.flashcards : highlight.isFlashcard;
+  }
+
   private async ensureStorageFolder(create: boolean): Promise<string> {
     const folder = this.settings.storageFolder || ".flashcards";
     const adapter = this.app.vault.adapter;
@@ -741,6 +5874,14 @@ export default class PdfFlashcardsPlugin extends Plugin {
     return `${this.settings.storageFolder}/progress.json`;
   }
 
+  private reviewLogPath(): string {
+    return `${this.settings.storageFolder}/review-log.jsonl`;
+  }
+
+  private usageLogPath(): string {
+    return `${this.settings.storageFolder}/usage-log.jsonl`;
+  }
+
   async saveHighlight(sourcePath: string, highlight: Highlight) {
     await this.ensureStorageFolder(true);
     const path = this.highlightPathFor(sourcePath);
@@ -755,6 +5896,20 @@ export default class PdfFlashcardsPlugin extends Plugin {
     await this.writeJson(path, existing);
   }
 
+  async saveHighlights(sourcePath: string, highlights: Highlight[]) {
+    await this.ensureStorageFolder(true);
+    const path = this.highlightPathFor(sourcePath);
+    const existing = await this.readJson<HighlightFile>(path, {
+      version: HIGHLIGHT_VERSION,
+      sourcePath,
+      highlights: [],
+    });
+
+    existing.sourcePath = sourcePath;
+    existing.highlights.push(...highlights);
+    await this.writeJson(path, existing);
+  }
+
   async loadHighlights(sourcePath: string): Promise<Highlight[]> {
     await this.ensureStorageFolder(false);
     const path = this.highlightPathFor(sourcePath);
@@ -766,6 +5921,32 @@ export default class PdfFlashcardsPlugin extends Plugin {
     return data.highlights || [];
   }
 
+  async updateHighlight(sourcePath: string, highlightId: string, patch: Partial<Highlight>) {
+    await this.ensureStorageFolder(true);
+    const path = this.highlightPathFor(sourcePath);
+    const existing = await this.readJson<HighlightFile>(path, {
+      version: HIGHLIGHT_VERSION,
+      sourcePath,
+      highlights: [],
+    });
+    existing.highlights = existing.highlights.map((h) =>
+      h.id === highlightId ? { ...h, ...patch, id: h.id } : h
+    );
+    await this.writeJson(path, existing);
+  }
+
+  async removeHighlight(sourcePath: string, highlightId: string) {
+    await this.ensureStorageFolder(true);
+    const path = this.highlightPathFor(sourcePath);
+    const existing = await this.readJson<HighlightFile>(path, {
+      version: HIGHLIGHT_VERSION,
+      sourcePath,
+      highlights: [],
+    });
+    existing.highlights = existing.highlights.filter((h) => h.id !== highlightId);
+    await this.writeJson(path, existing);
+  }
+
   async loadAllCards(): Promise<Flashcard[]> {
     await this.ensureStorageFolder(false);
     const path = this.flashcardPath();
@@ -785,6 +5966,7 @@ export default class PdfFlashcardsPlugin extends Plugin {
     });
     data.cards.push(...newCards);
     await this.writeJson(path, data);
+    await this.syncCardNotes(data.cards);
   }
 
   async replaceAllCards(cards: Flashcard[]) {
@@ -793,13 +5975,176 @@ export default class PdfFlashcardsPlugin extends Plugin {
     const data: FlashcardFile = { version: FLASHCARD_VERSION, cards };
     await this.writeJson(path, data);
     await this.pruneProgress(cards);
+    await this.syncCardNotes(cards);
+  }
+
+  async writeAllCardNotes() {
+    try {
+      await this.syncCardNotes(await this.loadAllCards());
+    } catch (err) {
+      console.error(err);
+      new Notice(`Failed to write flashcard notes: ${(err as Error).message}`);
+    }
+  }
+
+  private cardNotePath(sourcePath: string): string {
+    const name =
+      sourcePath === "manual" ? "Manual flashcards" : sourcePath.replace(/\.[^./]+$/, "");
+    return `${this.settings.syncFolder}/${name}.md`;
+  }
+
+  private isCardNote(file: TFile): boolean {
+    return (
+      this.settings.syncNotes &&
+      file.extension === "md" &&
+      file.path.startsWith(`${this.settings.syncFolder}/`)
+    );
+  }
+
+  /**
+   * Writes each source's cards to its note, skipping notes that are already
+   * up to date. Notes of sources without cards are emptied, not deleted.
+   */
+  private async syncCardNotes(cards: Flashcard[]) {
+    if (!this.settings.syncNotes) return;
+    // Apply edits still waiting for the debounce first, or the rewrite would drop them.
+    if (this.noteSyncTimers.size > 0) {
+      const waiting = Array.from(this.noteSyncTimers);
+      this.noteSyncTimers.clear();
+      for (const [path, timer] of waiting) {
+        window.clearTimeout(timer);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) await this.applyCardNoteEdits(file);
+      }
+      cards = await this.loadAllCards();
+    }
+    const bySource = new Map<string, Flashcard[]>();
+    cards.forEach((card) => {
+      const list = bySource.get(card.sourcePath) ?? [];
+      list.push(card);
+      bySource.set(card.sourcePath, list);
+    });
+    const notes = new Map<string, string>();
+    bySource.forEach((list, sourcePath) => {
+      notes.set(this.cardNotePath(sourcePath), renderCardNote(sourcePath, list));
+    });
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.isCardNote(file) || notes.has(file.path)) continue;
+      const { sourcePath, cards: noteCards } = parseCardNote(await this.app.vault.cachedRead(file));
+      if (sourcePath && noteCards.length > 0) notes.set(file.path, renderCardNote(sourcePath, []));
+    }
+
+    for (const [path, content] of notes) {
+      if (path === this.applyingNotePath) continue;
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      this.syncedNotes.set(path, content);
+      if (existing instanceof TFile) {
+        if ((await this.app.vault.read(existing)) !== content) {
+          await this.app.vault.modify(existing, content);
+        }
+        continue;
+      }
+      const folder = path.slice(0, path.lastIndexOf("/"));
+      if (!(await this.app.vault.adapter.exists(folder))) await this.app.vault.createFolder(folder);
+      await this.app.vault.create(path, content);
+    }
+  }
+
+  /**
+   * Saves the user's edits to a synced note. Incomplete cards keep their stored
+   * version, new callouts become cards, and a card is only deleted once its
+   * `^card-` line is gone, so half-typed callouts don't cost review history.
+   * Removal is judged against the last synced version, so cards stored since
+   * then stay. The note is only rewritten when new cards need a block id.
+   */
+  private async applyCardNoteEdits(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const synced = this.syncedNotes.get(file.path);
+    if (synced === content) return;
+    const { sourcePath, cards: noteCards, blockIds } = parseCardNote(content);
+    if (!sourcePath) return;
+
+    const cards = await this.loadAllCards();
+    const byId = new Map(cards.map((card) => [card.id, card]));
+    const seen = new Set<string>();
+    const updates = new Map<string, Flashcard>();
+    const added: Flashcard[] = [];
+    let needsIds = false;
+    const now = new Date().toISOString();
+    noteCards.forEach((noteCard) => {
+      const existing = noteCard.id ? byId.get(noteCard.id) : undefined;
+      if (existing) seen.add(existing.id);
+      const { type, question, answer, deck, tags } = noteCard;
+      const complete =
+        !!question && (type === "cloze" ? clozeNumbers(question).length > 0 : !!answer);
+      if (!complete) return;
+      if (!existing) {
+        if (!noteCard.id) needsIds = true;
+        added.push({
+          id: noteCard.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          type,
+          sourcePath,
+          highlightIds: [],
+          question,
+          answer,
+          createdAt: now,
+          deck: deck ?? defaultDeckFor(sourcePath),
+          tags,
+        });
+        return;
+      }
+      const unchanged =
+        (existing.type ?? "basic") === type &&
+        existing.question === question &&
+        existing.answer === answer &&
+        existing.deck === deck &&
+        (existing.tags ?? []).join(" ") === tags.join(" ");
+      if (!unchanged) updates.set(existing.id, { ...existing, type, question, answer, deck, tags });
+    });
+    const previous = synced !== undefined ? parseCardNote(synced).blockIds : null;
+    const removed = new Set(
+      cards
+        .filter((card) => card.sourcePath === sourcePath && !seen.has(card.id))
+        .filter((card) => !blockIds.has(card.id))
+        .filter((card) => !previous || previous.has(card.id))
+        .map((card) => card.id)
+    );
+    this.syncedNotes.set(file.path, content);
+    if (updates.size === 0 && added.length === 0 && removed.size === 0) return;
+
+    const next = cards
+      .filter((card) => !removed.has(card.id))
+      .map((card) => updates.get(card.id) ?? card)
+      .concat(added);
+    this.applyingNotePath = needsIds ? null : file.path;
+    try {
+      await this.replaceAllCards(next);
+      // A switched callout type or renumbered cloze moves the progress along.
+      for (const card of updates.values()) await this.retargetProgress(card);
+    } catch (err) {
+      console.error(err);
+      new Notice(`Failed to save flashcards from ${file.basename}: ${(err as Error).message}`);
+    } finally {
+      this.applyingNotePath = null;
+    }
+    await this.refreshFlashcardManageView();
   }
 
-  async updateProgress(cardId: string, isGood: boolean) {
-    await this.updateProgressOptimistic(cardId, isGood);
+  async removeCards(cardIds: string[]) {
+    if (cardIds.length === 0) return;
+    const ids = new Set(cardIds);
+    const cards = await this.loadAllCards();
+    await this.replaceAllCards(cards.filter((card) => !ids.has(card.id)));
+    await this.refreshFlashcardView();
+    await this.refreshFlashcardManageView();
   }
 
-  async updateProgressOptimistic(cardId: string, isGood: boolean): Promise<CardProgress> {
+  async updateProgress(cardId: string, rating: Rating | boolean) {
+    await this.updateProgressOptimistic(cardId, rating);
+  }
+
+  /** Accepts the legacy pass/fail boolean as well as a four-step rating. */
+  async updateProgressOptimistic(cardId: string, rating: Rating | boolean): Promise<CardProgress> {
     await this.ensureStorageFolder(true);
     const path = this.progressPath();
     const data =
@@ -809,43 +6154,234 @@ export default class PdfFlashcardsPlugin extends Plugin {
         progress: {},
       }));
 
-    const current = this.buildNextProgress(data.progress[cardId], isGood);
+    const previous = data.progress[cardId];
+    const current = this.buildNextProgress(previous, normalizeRating(rating));
     data.progress[cardId] = current;
     this.progressCache = data;
     void this.writeJson(path, data);
+    void this.appendReviewLog({
+      cardId,
+      reviewedAt: current.lastReviewedAt ?? new Date().toISOString(),
+      rating: normalizeRating(rating),
+      previousIntervalDays: previous?.intervalDays ?? 0,
+      intervalDays: current.intervalDays,
+    })
+      .then(() => this.refreshStatsView())
+      .catch((err) => console.error(err));
     return current;
   }
 
-  private buildNextProgress(
-    previous: CardProgress | undefined,
-    isGood: boolean
-  ): CardProgress {
+  private async appendReviewLog(entry: ReviewLogEntry) {
+    await this.app.vault.adapter.append(this.reviewLogPath(), `${JSON.stringify(entry)}\n`);
+  }
+
+  async loadReviewLog(): Promise<ReviewLogEntry[]> {
+    return this.readJsonLines<ReviewLogEntry>(this.reviewLogPath());
+  }
+
+  async loadUsageLog(): Promise<UsageEntry[]> {
+    return this.readJsonLines<UsageEntry>(this.usageLogPath());
+  }
+
+  private async readJsonLines<T>(path: string): Promise<T[]> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(path))) return [];
+    const raw = await adapter.read(path);
+    const entries: T[] = [];
+    raw.split("\n").forEach((line) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as T);
+      } catch {
+        // Skip a line left half-written by an interrupted append.
+      }
+    });
+    return entries;
+  }
+
+  /**
+   * Wraps a provider so every completed request is appended to the usage log.
+   * Token counts are estimated from text length when the server reports none.
+   */
+  private trackUsage(provider: LlmProvider, sourcePath: string): LlmProvider {
+    return {
+      label: provider.label,
+      model: provider.model,
+      configError: () => provider.configError(),
+      complete: async (request) => {
+        const completion = await provider.complete(request);
+        const entry: UsageEntry = {
+          timestamp: new Date().toISOString(),
+          provider: provider.label,
+          model: completion.model,
+          sourcePath,
+          inputTokens:
+            completion.usage?.inputTokens ??
+            estimateTokens(`${request.systemPrompt}\n${request.userPrompt}`),
+          outputTokens: completion.usage?.outputTokens ?? estimateTokens(completion.text),
+          estimated: completion.usage ? undefined : true,
+        };
+        try {
+          await this.ensureStorageFolder(true);
+          await this.app.vault.adapter.append(this.usageLogPath(), `${JSON.stringify(entry)}\n`);
+        } catch (err) {
+          console.error(err);
+        }
+        return completion;
+      },
+    };
+  }
+
+  /** Rough cost of sending these batches; null when the model has no price. */
+  private estimateRunCost(
+    batches: Highlight[][],
+    file: TFile,
+    profile: GenerationProfile,
+    model: string
+  ): number | null {
+    let input = 0;
+    let output = 0;
+    batches.forEach((batch) => {
+      const { systemPrompt, userPrompt } = this.buildGenerationPrompt(batch, file, profile);
+      input += estimateTokens(`${systemPrompt}\n${userPrompt}`);
+      // About 80 tokens per card of JSON, with distractors.
+      output += batch.length * Math.max(1, profile.cardsPerHighlight) * 80;
+    });
+    return usageCost(this.settings.prices, model, input, output);
+  }
+
+  async monthlySpend(): Promise<number> {
+    const month = dayKey(new Date()).slice(0, 7);
+    const entries = await this.loadUsageLog();
+    return entries
+      .filter((entry) => dayKey(new Date(entry.timestamp)).startsWith(month))
+      .reduce((sum, entry) => {
+        const cost = usageCost(
+          this.settings.prices,
+          entry.model,
+          entry.inputTokens,
+          entry.outputTokens
+        );
+        return sum + (cost ?? 0);
+      }, 0);
+  }
+
+  /** Asks before a run that would take this month's spend past the soft limit. */
+  private async confirmWithinBudget(runCost: number | null): Promise<boolean> {
+    const budget = this.settings.monthlyBudget;
+    if (budget <= 0) return true;
+    const spent = await this.monthlySpend();
+    if (spent + (runCost ?? 0) <= budget) return true;
+
+    const estimate = runCost === null ? "an unknown amount" : `about ${formatCost(runCost)}`;
+    return new Promise((resolve) => {
+      new ConfirmModal(
+        this.app,
+        "Monthly AI budget",
+        `This month's usage is ${formatCost(spent)} of your ${formatCost(budget)} limit. ` +
+          `This run adds ${estimate}.`,
+        "Generate anyway",
+        resolve
+      ).open();
+    });
+  }
+
+  /**
+   * SM-2: a failed card is relearned today with a lower ease; a passed card
+   * steps through 1 and 6 days, then grows by its ease factor. Hard and Easy
+   * shrink or stretch the Good interval and nudge the ease.
+   */
+  buildNextProgress(previous: CardProgress | undefined, rating: Rating): CardProgress {
     const now = new Date();
     const current: CardProgress = previous
       ? { ...previous }
       : {
           streak: 0,
           intervalDays: 0,
+          introducedAt: now.toISOString(),
         };
+    delete current.done;
 
-    if (isGood) {
-      current.streak += 1;
-      current.intervalDays = Math.max(1, current.intervalDays + current.streak);
-      current.done = true;
-    } else {
+    const ease = current.ease ?? DEFAULT_EASE;
+    if (rating === "again") {
+      if (current.streak > 0) current.lapses = (current.lapses ?? 0) + 1;
       current.streak = 0;
       current.intervalDays = 0;
-      current.done = false;
+      current.ease = Math.max(MIN_EASE, ease - 0.2);
+    } else {
+      const previousInterval = current.intervalDays;
+      current.streak += 1;
+      let good: number;
+      if (current.streak === 1) {
+        good = 1;
+      } else if (current.streak === 2) {
+        good = 6;
+      } else {
+        good = Math.max(1, Math.round(previousInterval * ease));
+      }
+
+      if (rating === "hard") {
+        current.intervalDays =
+          current.streak === 1
+            ? 1
+            : Math.max(previousInterval + 1, Math.round(previousInterval * 1.2));
+        current.ease = Math.max(MIN_EASE, ease - 0.15);
+      } else if (rating === "easy") {
+        current.intervalDays = current.streak === 1 ? 4 : Math.max(good + 1, Math.round(good * 1.3));
+        current.ease = ease + 0.15;
+      } else {
+        current.intervalDays = good;
+        current.ease = ease;
+      }
     }
+    current.lastRating = rating;
 
     const nextDue = new Date(now.getTime());
-    nextDue.setDate(now.getDate() + (isGood ? current.intervalDays : 0));
+    nextDue.setDate(now.getDate() + current.intervalDays);
 
     current.lastReviewedAt = now.toISOString();
     current.nextDueAt = nextDue.toISOString();
     return current;
   }
 
+  /**
+   * Items due by the end of today, oldest due first, followed by as many
+   * unseen items as today's new-card allowance leaves.
+   */
+  buildStudyQueue(cards: Flashcard[], progress: Record<string, CardProgress>): StudyItem[] {
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const items = studyItemsFor(cards);
+    const dueTime = (item: StudyItem) => {
+      const due = progress[item.key]?.nextDueAt;
+      return due ? new Date(due).getTime() : 0;
+    };
+
+    const due = items
+      .filter((item) => progress[item.key] && dueTime(item) <= endOfToday.getTime())
+      .sort((a, b) => dueTime(a) - dueTime(b));
+
+    const introducedToday = Object.values(progress).filter(
+      (p) => p.introducedAt && new Date(p.introducedAt).getTime() >= startOfToday.getTime()
+    ).length;
+    const allowance = Math.max(0, this.settings.newCardsPerDay - introducedToday);
+    const fresh = items.filter((item) => !progress[item.key]).slice(0, allowance);
+
+    return [...due, ...fresh];
+  }
+
+  nextDueDate(cards: Flashcard[], progress: Record<string, CardProgress>): Date | null {
+    const times = studyItemsFor(cards)
+      .map((item) => progress[item.key]?.nextDueAt)
+      .filter((due): due is string => !!due)
+      .map((due) => new Date(due).getTime());
+    if (times.length === 0) return null;
+    return new Date(Math.min(...times));
+  }
+
   async loadProgress(): Promise<Record<string, CardProgress>> {
     await this.ensureStorageFolder(false);
     const path = this.progressPath();
@@ -858,10 +6394,69 @@ export default class PdfFlashcardsPlugin extends Plugin {
     return this.progressCache.progress ?? {};
   }
 
-  async resetProgress() {
+  /**
+   * Collapses a duplicate group into one card: content from `textFrom`, id and
+   * therefore review progress from `progressFrom`. Source highlights and tags
+   * are combined; the other cards and their progress are removed. When the
+   * card type changes, the kept progress moves to the new keys.
+   */
+  async mergeDuplicateCards(group: Flashcard[], textFrom: Flashcard, progressFrom: Flashcard) {
+    const ids = new Set(group.map((card) => card.id));
+    const merged: Flashcard = {
+      ...textFrom,
+      id: progressFrom.id,
+      createdAt: progressFrom.createdAt,
+      highlightIds: Array.from(
+        new Set(
+          group
+            .filter((card) => card.sourcePath === textFrom.sourcePath)
+            .flatMap((card) => card.highlightIds)
+        )
+      ),
+      tags: Array.from(new Set(group.flatMap((card) => card.tags ?? []))),
+    };
+    const cards = await this.loadAllCards();
+    await this.replaceAllCards(
+      cards.flatMap((card) => {
+        if (card.id === progressFrom.id) return [merged];
+        return ids.has(card.id) ? [] : [card];
+      })
+    );
+    for (const card of group) {
+      if (card.id !== progressFrom.id) await this.removeProgress(card.id);
+    }
+    await this.retargetProgress(merged);
+    await this.refreshFlashcardView();
+  }
+
+  /**
+   * Re-keys a card's progress after its type or cloze numbers changed. New keys
+   * start from the most recently reviewed entry; keys the card no longer has are dropped.
+   */
+  async retargetProgress(card: Flashcard) {
     await this.ensureStorageFolder(true);
     const path = this.progressPath();
-    const data: ProgressFile = { version: PROGRESS_VERSION, progress: {} };
+    const data =
+      this.progressCache ??
+      (await this.readJson<ProgressFile>(path, {
+        version: PROGRESS_VERSION,
+        progress: {},
+      }));
+    const keys = new Set(studyItemsFor([card]).map((item) => item.key));
+    const existing = Object.keys(data.progress).filter(
+      (key) => cardIdForProgressKey(key) === card.id
+    );
+    if (existing.every((key) => keys.has(key))) return;
+
+    const latest = existing
+      .map((key) => data.progress[key])
+      .sort((a, b) => (b.lastReviewedAt ?? "").localeCompare(a.lastReviewedAt ?? ""))[0];
+    keys.forEach((key) => {
+      if (!data.progress[key]) data.progress[key] = { ...latest };
+    });
+    existing.forEach((key) => {
+      if (!keys.has(key)) delete data.progress[key];
+    });
     await this.writeJson(path, data);
     this.progressCache = data;
   }
@@ -875,7 +6470,9 @@ export default class PdfFlashcardsPlugin extends Plugin {
         version: PROGRESS_VERSION,
         progress: {},
       }));
-    delete data.progress[cardId];
+    Object.keys(data.progress).forEach((key) => {
+      if (cardIdForProgressKey(key) === cardId) delete data.progress[key];
+    });
     await this.writeJson(path, data);
     this.progressCache = data;
   }
@@ -889,8 +6486,8 @@ export default class PdfFlashcardsPlugin extends Plugin {
         version: PROGRESS_VERSION,
         progress: {},
       }));
-    Object.keys(data.progress).forEach((id) => {
-      if (!ids.has(id)) delete data.progress[id];
+    Object.keys(data.progress).forEach((key) => {
+      if (!ids.has(cardIdForProgressKey(key))) delete data.progress[key];
     });
     await this.writeJson(path, data);
     this.progressCache = data;
@@ -924,176 +6521,934 @@ export default class PdfFlashcardsPlugin extends Plugin {
         (hash << 8) +
         (hash << 24);
     }
-    return (hash >>> 0).toString(16);
-  }
-
-  private getActivePdfFile(): TFile | null {
-    const leaf = this.app.workspace.getMostRecentLeaf();
-    if (!leaf) return null;
-    const viewType = leaf.view.getViewType();
-    if (viewType !== "pdf") return null;
-    const view = leaf.view;
-    if (view instanceof FileView && view.file instanceof TFile) return view.file;
-    return null;
+    return (hash >>> 0).toString(16);
+  }
+
+  private getActivePdfFile(): TFile | null {
+    const leaf = this.app.workspace.getMostRecentLeaf();
+    if (!leaf) return null;
+    const viewType = leaf.view.getViewType();
+    if (viewType !== "pdf") return null;
+    const view = leaf.view;
+    if (view instanceof FileView && view.file instanceof TFile) return view.file;
+    return null;
+  }
+
+  private async generateFlashcardsFromActivePdf(profile = this.defaultProfile()) {
+    const file = this.getActivePdfFile();
+    if (!file) {
+      new Notice("Open a PDF first.");
+      return;
+    }
+
+    const provider = this.trackUsage(
+      createProvider(this.settings, profile.model.trim()),
+      file.path
+    );
+    const configError = provider.configError();
+    if (configError) {
+      new Notice(configError);
+      return;
+    }
+
+    const highlights = await this.loadHighlights(file.path);
+    const flashcardHighlights = highlights.filter(
+      (h) => this.isFlashcardHighlight(h) && !h.flashcardGenerated
+    );
+
+    if (flashcardHighlights.length === 0) {
+      new Notice("No new flashcard highlights found.");
+      return;
+    }
+
+    if (this.settings.contextChars > 0) {
+      try {
+        await this.ensureHighlightContext(file, flashcardHighlights);
+      } catch (err) {
+        console.error(err);
+        new Notice("Could not read the PDF text; generating without surrounding context.");
+      }
+    }
+
+    await this.generateFromHighlights(provider, file, flashcardHighlights, profile, (ids) =>
+      this.markHighlightsGenerated(file.path, ids)
+    );
+  }
+
+  /**
+   * Generates cards from the text of a Markdown note: its `==highlights==`, the
+   * editor selection, or the heading section around the cursor. Cards link to
+   * the paragraph's `^id` (added once a card is saved) or to the heading.
+   */
+  private async generateFlashcardsFromNote(
+    mode: "highlights" | "selection" | "section",
+    profile = this.defaultProfile()
+  ) {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const file = view?.file;
+    if (!view || !file) {
+      new Notice("Open a Markdown note first.");
+      return;
+    }
+
+    const provider = this.trackUsage(
+      createProvider(this.settings, profile.model.trim()),
+      file.path
+    );
+    const configError = provider.configError();
+    if (configError) {
+      new Notice(configError);
+      return;
+    }
+
+    const editor = view.editor;
+    const content = editor.getValue();
+    const { blocks, headings } = parseMarkdownBlocks(content);
+    let passages: MarkdownPassage[];
+    let sectionRef: string | undefined;
+    if (mode === "selection") {
+      const from = editor.posToOffset(editor.getCursor("from"));
+      const to = editor.posToOffset(editor.getCursor("to"));
+      if (from === to) {
+        new Notice("Select some text first.");
+        return;
+      }
+      passages = passagesInRange(content, blocks, from, to);
+    } else if (mode === "section") {
+      const section = headingSection(
+        headings,
+        editor.posToOffset(editor.getCursor()),
+        content.length
+      );
+      if (!section) {
+        new Notice("Place the cursor below a heading first.");
+        return;
+      }
+      sectionRef = `#${section.heading.text}`;
+      passages = passagesInRange(content, blocks, section.heading.end, section.end);
+    } else {
+      const used = new Set(
+        (await this.loadAllCards())
+          .filter((card) => card.sourcePath === file.path)
+          .flatMap((card) => card.highlightIds)
+      );
+      passages = findMarkdownHighlights(content, blocks).filter(
+        (passage) => !passage.block.blockId || !used.has(`^${passage.block.blockId}`)
+      );
+    }
+    if (passages.length === 0) {
+      new Notice(mode === "highlights" ? "No new highlights in this note." : "No text found.");
+      return;
+    }
+
+    // Blocks without an id get one, but it is only written to the note for saved cards.
+    const pending = new Map<string, { line: string; inline: boolean }>();
+    const newIds = new Map<MarkdownBlock, string>();
+    const now = new Date().toISOString();
+    const highlights = passages.map((passage): Highlight => {
+      const { block } = passage;
+      let id = sectionRef;
+      if (!id) {
+        let blockId = block.blockId ?? newIds.get(block);
+        if (!blockId) {
+          blockId = Math.random().toString(36).slice(2, 8);
+          newIds.set(block, blockId);
+          pending.set(`^${blockId}`, {
+            line: content.slice(content.lastIndexOf("\n", block.end - 1) + 1, block.end),
+            inline: block.kind === "text",
+          });
+        }
+        id = `^${blockId}`;
+      }
+      const sectionStart = block.heading?.end ?? 0;
+      const sectionEnd = headings.find((h) => h.start > passage.end)?.start ?? content.length;
+      return {
+        id,
+        color: "flashcard",
+        isFlashcard: true,
+        text: passage.text,
+        createdAt: now,
+        pages: [],
+        context: {
+          before: cleanMarkdownText(content.slice(sectionStart, passage.start)),
+          after: cleanMarkdownText(content.slice(passage.end, sectionEnd)),
+          heading: block.heading?.text,
+        },
+      };
+    });
+
+    await this.generateFromHighlights(provider, file, highlights, profile, (_ids, saved) => {
+      const linked = new Set(saved.flatMap((card) => card.highlightIds));
+      const blocksToMark = Array.from(pending)
+        .filter(([id]) => linked.has(id))
+        .map(([id, block]) => {
+          pending.delete(id);
+          return { id: id.slice(1), ...block };
+        });
+      return this.addBlockIds(file, blocksToMark);
+    });
+  }
+
+  /**
+   * Appends `^id`s to note blocks. Blocks are found by their last line because
+   * the note may have been edited while cards were being generated.
+   */
+  private async addBlockIds(file: TFile, blocks: { id: string; line: string; inline: boolean }[]) {
+    if (blocks.length === 0) return;
+    await this.app.vault.process(file, (data) => {
+      const lines = data.split("\n");
+      blocks.forEach(({ id, line, inline }) => {
+        const index = lines.findIndex((l) => l.replace(/\r$/, "") === line);
+        if (index < 0) return;
+        if (inline) lines[index] = `${lines[index].trimEnd()} ^${id}`;
+        else lines.splice(index + 1, 0, `^${id}`);
+      });
+      return lines.join("\n");
+    });
+  }
+
+  /**
+   * Batches highlights, generates cards and either saves them or opens the
+   * review. `markGenerated` gets the highlights that are done and the saved cards.
+   */
+  private async generateFromHighlights(
+    provider: LlmProvider,
+    file: TFile,
+    flashcardHighlights: Highlight[],
+    profile: GenerationProfile,
+    markGenerated: (highlightIds: string[], saved: Flashcard[]) => Promise<void>
+  ) {
+    const batches = this.buildHighlightBatches(flashcardHighlights);
+    const runCost = this.estimateRunCost(batches, file, profile, provider.model);
+    if (!(await this.confirmWithinBudget(runCost))) return;
+    const progress = new GenerationProgress(this, batches.length);
+    const review = this.settings.reviewBeforeSave;
+    const collected: Flashcard[] = [];
+    const batchOfCard = new Map<string, Highlight[]>();
+    const failures: string[] = [];
+    const warnings: string[] = [];
+    let saved = 0;
+    let skipped = 0;
+    let persist: Promise<void> = Promise.resolve();
+
+    await runWithConcurrency(
+      batches,
+      this.settings.generationConcurrency,
+      async (batch, index) => {
+        try {
+          // Batches already running when Cancel is pressed are still saved; they are paid for.
+          const { cards, errors } = await this.generateBatch(provider, file, batch, profile);
+          if (cards.length === 0) {
+            failures.push(`Batch ${index + 1}: ${this.describeErrors(errors)}`);
+            return;
+          }
+          warnings.push(...errors.map((error) => `Batch ${index + 1}: ${error}`));
+
+          if (review) {
+            cards.forEach((card) => {
+              collected.push(card);
+              batchOfCard.set(card.id, batch);
+            });
+            return;
+          }
+
+          // Serialize writes so parallel batches don't overwrite each other's cards.
+          const run = persist.then(async () => {
+            const duplicates = findDuplicates(cards, await this.loadAllCards());
+            const fresh = cards.filter((card) => !duplicates.has(card.id));
+            await this.addCards(fresh);
+            // Only highlights a card cites are done; duplicates cite already covered ones.
+            await markGenerated(
+              cards.flatMap((card) => doneHighlightIds(card, batch)),
+              fresh
+            );
+            saved += cards.length - duplicates.size;
+            skipped += duplicates.size;
+          });
+          persist = run.catch(() => undefined);
+          await run;
+          await this.refreshFlashcardView();
+          await this.refreshFlashcardManageView();
+        } catch (err) {
+          console.error(err);
+          failures.push(`Batch ${index + 1}: ${(err as Error).message}`);
+        } finally {
+          progress.advance();
+        }
+      },
+      () => progress.cancelled
+    );
+    progress.finish();
+
+    const summary: string[] = [];
+    if (progress.cancelled) summary.push("Generation cancelled.");
+    if (!review) summary.push(`Saved ${saved} flashcards.`);
+    if (skipped > 0) summary.push(`Skipped ${skipped} duplicates.`);
+    if (failures.length > 0) {
+      summary.push(`${failures.length} of ${batches.length} batches failed. ${this.describeErrors(failures)}`);
+    }
+    if (warnings.length > 0) {
+      summary.push(`Some cards had problems. ${this.describeErrors(warnings)}`);
+    }
+    if (summary.length > 0) new Notice(summary.join(" "), failures.length || warnings.length ? 10000 : 5000);
+
+    if (!review || collected.length === 0) return;
+
+    const regenerate = async (card: Flashcard) => {
+      const batch = batchOfCard.get(card.id) ?? flashcardHighlights;
+      const replacement = await this.regenerateCard(provider, file, card, batch, profile);
+      if (replacement) batchOfCard.set(replacement.id, batch);
+      return replacement;
+    };
+
+    const duplicates = findDuplicates(collected, await this.loadAllCards());
+    // Highlights behind a duplicate are already covered by the card it duplicates.
+    const covered = collected.filter((card) => duplicates.has(card.id));
+    new GeneratedCardsReviewModal(
+      this.app,
+      collected,
+      regenerate,
+      async (accepted) => {
+        await this.addCards(accepted);
+        await markGenerated(
+          [...accepted, ...covered].flatMap((card) =>
+            doneHighlightIds(card, batchOfCard.get(card.id) ?? [])
+          ),
+          accepted
+        );
+        new Notice(`Saved ${accepted.length} flashcards.`);
+        await this.refreshFlashcardView();
+        await this.refreshFlashcardManageView();
+      },
+      duplicates
+    ).open();
+  }
+
+  /** Greedily packs highlights into batches that stay under the token budget. */
+  private buildHighlightBatches(highlights: Highlight[]): Highlight[][] {
+    const budget = Math.max(200, this.settings.batchTokenBudget);
+    const batches: Highlight[][] = [];
+    let current: Highlight[] = [];
+    let used = 0;
+    highlights.forEach((highlight) => {
+      const context =
+        this.settings.contextChars > 0 && highlight.context
+          ? formatHighlightContext(highlight.context, this.settings.contextChars)
+          : "";
+      const cost = estimateTokens(`${highlight.text} ${highlight.note ?? ""}${context}`) + 8;
+      if (current.length > 0 && used + cost > budget) {
+        batches.push(current);
+        current = [];
+        used = 0;
+      }
+      current.push(highlight);
+      used += cost;
+    });
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  /**
+   * Renders the profile's template for one batch. The JSON format, source
+   * numbering and cloze rules are always appended because parsing relies on them.
+   */
+  private buildGenerationPrompt(
+    batch: Highlight[],
+    file: TFile,
+    profile: GenerationProfile
+  ): { systemPrompt: string; userPrompt: string } {
+    const contextChars = this.settings.contextChars;
+    const pagesOf = (h: Highlight) => h.pages.map((p) => p.page + 1);
+    const highlights = batch
+      .map((h, idx) => {
+        const pages = formatPageRanges(pagesOf(h));
+        const page = pages ? ` [p. ${pages}]` : "";
+        const note = h.note ? `\n   Reader's note: ${h.note.replace(/\s+/g, " ").trim()}` : "";
+        const context =
+          contextChars > 0 && h.context ? formatHighlightContext(h.context, contextChars) : "";
+        return `(${idx + 1})${page} ${h.text}${note}${context}`;
+      })
+      .join("\n");
+    const notes = batch
+      .map((h, idx) => (h.note ? `(${idx + 1}) ${h.note.replace(/\s+/g, " ").trim()}` : ""))
+      .filter((line) => line)
+      .join("\n");
+
+    const template = profile.template.includes("{{highlights}}")
+      ? profile.template
+      : `${profile.template}\n\n{{highlights}}`;
+    const body = renderTemplate(template, {
+      highlights,
+      notes,
+      title: file.basename,
+      pages: formatPageRanges(batch.flatMap(pagesOf)),
+    });
+
+    const perHighlight = Math.max(1, profile.cardsPerHighlight);
+    const format =
+      `Aim for about ${perHighlight} ${perHighlight === 1 ? "card" : "cards"} per highlight. ` +
+      "Return a JSON object {\"cards\": [...]} where each item has 'question', 'answer' and 'distractors' " +
+      "(three plausible but wrong answers of similar length). " +
+      "Every item, including cloze items, must also have 'sources': the numbers of the " +
+      "highlights it was derived from, e.g. [2] or [1, 3]." +
+      (this.settings.allowCloze
+        ? " For definitions and formulas you may instead return a cloze item " +
+          "{\"type\": \"cloze\", \"text\": \"The {{c1::mitochondria}} is the powerhouse of the cell\"}, " +
+          "numbering deletions c1, c2, ... when one sentence hides several facts."
+        : "") +
+      (contextChars > 0
+        ? " Section and surrounding text only explain what a highlight refers to; " +
+          "write cards about the highlights themselves."
+        : "");
+
+    return { systemPrompt: profile.systemPrompt, userPrompt: `${body}\n\n${format}` };
+  }
+
+  private async generateBatch(
+    provider: LlmProvider,
+    file: TFile,
+    batch: Highlight[],
+    profile: GenerationProfile
+  ): Promise<{ cards: Flashcard[]; errors: string[] }> {
+    const { systemPrompt, userPrompt } = this.buildGenerationPrompt(batch, file, profile);
+    const { cards, errors } = await this.requestValidatedCards(
+      provider,
+      { systemPrompt, userPrompt, temperature: profile.temperature },
+      batch.length
+    );
+    return { cards: cards.map((card) => this.toFlashcard(card, file, batch)), errors };
+  }
+
+  private async regenerateCard(
+    provider: LlmProvider,
+    file: TFile,
+    card: Flashcard,
+    batch: Highlight[],
+    profile: GenerationProfile
+  ): Promise<Flashcard | null> {
+    const { systemPrompt, userPrompt } = this.buildGenerationPrompt(batch, file, profile);
+    const prompt =
+      "Rewrite this flashcard so it is clearer and more accurate, using the highlights below. " +
+      "Return the same JSON format as before with exactly one card.\n\n" +
+      `Current card: ${JSON.stringify({ question: card.question, answer: card.answer })}\n\n` +
+      userPrompt;
+    const { cards: replacements } = await this.requestValidatedCards(
+      provider,
+      { systemPrompt, userPrompt: prompt, temperature: Math.max(profile.temperature, 0.7) },
+      batch.length
+    );
+    const [replacement] = replacements;
+    if (!replacement) return null;
+    return {
+      ...this.toFlashcard(replacement, file, batch),
+      highlightIds: card.highlightIds,
+      unresolvedSource: card.unresolvedSource,
+    };
+  }
+
+  /** Resolves the model's 1-based source numbers against the batch it was shown. */
+  private toFlashcard(card: GeneratedCard, file: TFile, batch: Highlight[]): Flashcard {
+    const highlightIds = card.sources
+      .map((source) => batch[source - 1]?.id)
+      .filter((id): id is string => !!id);
+    const unresolved = card.sources.length === 0 || highlightIds.length < card.sources.length;
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      sourcePath: file.path,
+      highlightIds: Array.from(new Set(highlightIds)),
+      unresolvedSource: unresolved || undefined,
+      type: card.type,
+      question: card.question,
+      answer: card.answer,
+      distractors: card.distractors,
+      createdAt: new Date().toISOString(),
+      deck: defaultDeckFor(file.path),
+      tags: [],
+    };
+  }
+
+  /**
+   * Reads surrounding text and the nearest section heading for highlights that
+   * don't have them yet. Uses the PDF's own text content, so it also works for
+   * old highlights and pages that were never rendered.
+   */
+  private async ensureHighlightContext(file: TFile, highlights: Highlight[]) {
+    const missing = highlights.filter((h) => !h.context && h.pages.length > 0);
+    if (missing.length === 0) return;
+
+    const pdfjs = await loadPdfJs();
+    const data = await this.app.vault.readBinary(file);
+    const doc = (await pdfjs.getDocument({ data: new Uint8Array(data) }).promise) as PdfDocument;
+    try {
+      const pageTexts = new Map<number, PageText>();
+      const pageText = async (index: number) => {
+        let cached = pageTexts.get(index);
+        if (!cached) {
+          const page = await doc.getPage(index + 1);
+          cached = buildPageText((await page.getTextContent()).items);
+          pageTexts.set(index, cached);
+        }
+        return cached;
+      };
+      const outline = await loadOutline(doc);
+
+      const contexts = new Map<string, HighlightContext>();
+      for (const highlight of missing) {
+        const indices = highlight.pages
+          .map((p) => p.page)
+          .filter((index) => index >= 0 && index < doc.numPages);
+        if (indices.length === 0) continue;
+        const first = Math.min(...indices);
+        const last = Math.max(...indices);
+        const parts: PageText[] = [];
+        for (let index = first; index <= last; index++) parts.push(await pageText(index));
+        const combined = joinPageTexts(parts);
+
+        const match = locateHighlight(combined.text, highlight.text);
+        const context: HighlightContext = match
+          ? {
+              before: combined.text.slice(Math.max(0, match.start - MAX_STORED_CONTEXT), match.start).trim(),
+              after: combined.text.slice(match.end, match.end + MAX_STORED_CONTEXT).trim(),
+            }
+          : { before: "", after: "" };
+        const pageHeading = match
+          ? combined.headings.filter((h) => h.offset < match.start).pop()?.text
+          : undefined;
+        // Outline entries only know their page, so the last one up to this page wins.
+        const outlineHeading = outline.filter((entry) => entry.pageIndex <= first).pop()?.title;
+        const heading = pageHeading ?? outlineHeading;
+        if (heading) context.heading = heading;
+
+        highlight.context = context;
+        contexts.set(highlight.id, context);
+      }
+      await this.saveHighlightContexts(file.path, contexts);
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  private async saveHighlightContexts(sourcePath: string, contexts: Map<string, HighlightContext>) {
+    if (contexts.size === 0) return;
+    await this.ensureStorageFolder(true);
+    const path = this.highlightPathFor(sourcePath);
+    const existing = await this.readJson<HighlightFile>(path, {
+      version: HIGHLIGHT_VERSION,
+      sourcePath,
+      highlights: [],
+    });
+    existing.highlights = existing.highlights.map((h) =>
+      contexts.has(h.id) ? { ...h, context: contexts.get(h.id) } : h
+    );
+    await this.writeJson(path, existing);
+  }
+
+  private async markHighlightsGenerated(sourcePath: string, highlightIds: string[]) {
+    await this.ensureStorageFolder(true);
+    const path = this.highlightPathFor(sourcePath);
+    const existing = await this.readJson<HighlightFile>(path, {
+      version: HIGHLIGHT_VERSION,
+      sourcePath,
+      highlights: [],
+    });
+    const idSet = new Set(highlightIds);
+    existing.highlights = existing.highlights.map((h) =>
+      idSet.has(h.id) ? { ...h, flashcardGenerated: true } : h
+    );
+    await this.writeJson(path, existing);
+  }
+
+  /** Accepts `[1, 3]`, `["(2)"]` or a lone number; anything else yields no sources. */
+  private parseSourceNumbers(value: unknown): number[] {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return values
+      .map((v) => parseInt(String(v).replace(/[^0-9]/g, ""), 10))
+      .filter((n) => !Number.isNaN(n));
+  }
+
+  /**
+   * Validates every card in a model reply. Cards with unusable content are
+   * dropped; cards with bad source numbers are kept but still reported so a
+   * repair attempt can fix them.
+   */
+  private parseFlashcards(raw: string, highlightCount: number): ParsedCards {
+    let payload: unknown;
+    try {
+      payload = extractJsonPayload(raw);
+    } catch (err) {
+      return { cards: [], errors: [(err as Error).message] };
+    }
+
+    const items = unwrapCardArray(payload);
+    if (!items) {
+      return { cards: [], errors: ["Expected a JSON array of cards or an object with a 'cards' array."] };
+    }
+
+    const cards: GeneratedCard[] = [];
+    const errors: string[] = [];
+    items.forEach((value, index) => {
+      const label = `Card ${index + 1}`;
+      if (!value || typeof value !== "object") {
+        errors.push(`${label}: not an object.`);
+        return;
+      }
+      const item = value as Record<string, unknown>;
+      const sources = this.parseSourceNumbers(item.sources);
+      const invalid = sources.filter((n) => n < 1 || n > highlightCount);
+      if (sources.length === 0) {
+        errors.push(`${label}: missing 'sources'.`);
+      } else if (invalid.length > 0) {
+        errors.push(
+          `${label}: sources ${invalid.join(", ")} are not highlight numbers (1-${highlightCount}).`
+        );
+      }
+
+      const clozeText = [item.text, item.question].find(
+        (v): v is string => typeof v === "string" && clozeNumbers(v).length > 0
+      );
+      if (item.type === "cloze" || (clozeText && !item.answer)) {
+        if (!clozeText) {
+          errors.push(`${label}: cloze 'text' has no {{c1::...}} deletion.`);
+          return;
+        }
+        cards.push({
+          type: "cloze",
+          question: clozeText,
+          answer: item.extra ? String(item.extra) : "",
+          sources,
+        });
+        return;
+      }
+
+      const question = typeof item.question === "string" ? item.question.trim() : "";
+      const answer = item.answer === undefined || item.answer === null ? "" : String(item.answer).trim();
+      if (!question || !answer) {
+        errors.push(`${label}: missing ${!question ? "'question'" : "'answer'"}.`);
+        return;
+      }
+      const distractors = Array.isArray(item.distractors)
+        ? item.distractors.map((d) => String(d)).filter(Boolean)
+        : [];
+      cards.push({
+        type: "basic",
+        question,
+        answer,
+        distractors: distractors.length > 0 ? distractors : undefined,
+        sources,
+      });
+    });
+
+    if (items.length === 0) errors.push("The reply contained no cards.");
+    return { cards, errors };
+  }
+
+  /**
+   * Asks the model for cards and, while the reply has problems, re-asks with
+   * the validation errors up to `MAX_REPAIR_ATTEMPTS` times. Returns the best
+   * attempt.
+   */
+  private async requestValidatedCards(
+    provider: LlmProvider,
+    request: LlmRequest,
+    highlightCount: number
+  ): Promise<ParsedCards> {
+    let best: ParsedCards | null = null;
+    let userPrompt = request.userPrompt;
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const { text: raw } = await provider.complete({
+        ...request,
+        userPrompt,
+        schema: FLASHCARD_SCHEMA,
+      });
+      const result = this.parseFlashcards(raw, highlightCount);
+      if (
+        !best ||
+        result.cards.length > best.cards.length ||
+        (result.cards.length === best.cards.length && result.errors.length < best.errors.length)
+      ) {
+        best = result;
+      }
+      if (result.errors.length === 0) return result;
+
+      userPrompt =
+        `${request.userPrompt}\n\n` +
+        `Your previous reply was:\n${raw.slice(0, 4000)}\n\n` +
+        `It had these problems:\n- ${result.errors.join("\n- ")}\n\n` +
+        "Reply again with the complete, corrected JSON and nothing else.";
+    }
+    return best ?? { cards: [], errors: ["The model returned nothing."] };
+  }
+
+  private describeErrors(errors: string[]): string {
+    const shown = errors.slice(0, 3).join(" ");
+    return errors.length > 3 ? `${shown} (+${errors.length - 3} more)` : shown;
+  }
+
+  private async openFlashcardView(scope?: StudyScope) {
+    let leaf = this.app.workspace.getLeavesOfType(FLASHCARD_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = this.app.workspace.getRightLeaf(false);
+      await leaf.setViewState({
+        type: FLASHCARD_VIEW_TYPE,
+        active: true,
+      });
+    } else {
+      await this.app.workspace.revealLeaf(leaf);
+    }
+    if (scope && leaf.view instanceof FlashcardView) {
+      await leaf.view.setScope(scope);
+    }
   }
 
-  private async generateFlashcardsFromActivePdf() {
-    const file = this.getActivePdfFile();
-    if (!file) {
-      new Notice("Open a PDF first.");
+  private async pickStudyScope(kind: "deck" | "tag") {
+    const cards = await this.loadAllCards();
+    const scopes = this.availableScopes(cards).filter((scope) => scope.kind === kind);
+    if (scopes.length === 0) {
+      new Notice(kind === "deck" ? "No decks yet." : "No tagged flashcards yet.");
       return;
     }
+    new StudyScopeModal(this.app, scopes, (scope) => {
+      void this.openFlashcardView(scope);
+    }).open();
+  }
 
-    if (!this.settings.apiKey) {
-      new Notice("Set your OpenAI API key in the plugin settings first.");
+  private async pickExportScope(format: "apkg" | "csv" | "tsv") {
+    const cards = await this.loadAllCards();
+    if (cards.length === 0) {
+      new Notice("No flashcards yet.");
       return;
     }
+    new StudyScopeModal(
+      this.app,
+      this.availableScopes(cards),
+      (scope) => void this.exportCards(this.filterCardsByScope(cards, scope), scope, format),
+      "Choose which flashcards to export"
+    ).open();
+  }
 
-    const highlights = await this.loadHighlights(file.path);
-    const flashcardHighlights = highlights.filter(
-      (h) => h.isFlashcard && !h.flashcardGenerated
-    );
-
-    if (flashcardHighlights.length === 0) {
-      new Notice("No new flashcard highlights found.");
+  private async exportCards(cards: Flashcard[], scope: StudyScope, format: "apkg" | "csv" | "tsv") {
+    if (cards.length === 0) {
+      new Notice("No flashcards in this selection.");
       return;
     }
+    const entries = cards.map((card): ExportCard => {
+      const manual = card.sourcePath === "manual";
+      return {
+        card,
+        deck: ankiDeckName(this.deckFor(card)),
+        sourceLabel: manual ? "" : card.sourcePath.split("/").pop() ?? card.sourcePath,
+        sourceUri: manual ? "" : this.buildSourceUri(card.sourcePath, card.highlightIds[0]),
+      };
+    });
 
-    const contextText = flashcardHighlights
-      .map((h, idx) => `(${idx + 1}) ${h.text}`)
-      .join("\n");
-
-    const systemPrompt =
-      "You are a helpful assistant that turns study highlights into flashcards.";
-    const userPrompt =
-      "Create concise flashcards from the following highlights. " +
-      "Return a JSON array where each item has 'question' and 'answer'. " +
-      "Avoid markdown, and keep questions short and clear.\n\n" +
-      contextText;
-
+    const folder = this.settings.exportFolder;
+    const name = `Flashcards ${scopeLabel(scope)} ${dayKey(new Date())}`
+      .replace(/[\\/:*?"<>|#^[\]]+/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    const path = folder ? `${folder}/${name}.${format}` : `${name}.${format}`;
+    const adapter = this.app.vault.adapter;
     try {
-      const response = await this.callOpenAI(systemPrompt, userPrompt);
-      const cards = this.parseFlashcards(response);
-      if (cards.length === 0) {
-        new Notice("No flashcards returned by the model.");
-        return;
+      if (folder && !(await adapter.exists(folder))) await adapter.mkdir(folder);
+      if (format === "apkg") {
+        const progress = this.settings.exportScheduling ? await this.loadProgress() : null;
+        const data = await buildAnkiPackage(entries, progress);
+        await adapter.writeBinary(path, data.buffer as ArrayBuffer);
+      } else {
+        await adapter.write(path, buildDelimitedExport(entries, format === "tsv" ? "\t" : ","));
       }
-
-      const now = new Date().toISOString();
-      const newCards: Flashcard[] = cards.map((card) => ({
-        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-        sourcePath: file.path,
-        highlightIds: flashcardHighlights.map((h) => h.id),
-        question: card.question,
-        answer: card.answer,
-        createdAt: now,
-      }));
-
-      await this.addCards(newCards);
-      await this.markHighlightsGenerated(file.path, flashcardHighlights.map((h) => h.id));
-      new Notice(`Generated ${newCards.length} flashcards.`);
-      await this.refreshFlashcardView();
-      await this.refreshFlashcardManageView();
+      new Notice(`Exported ${cards.length} flashcards to ${path}.`);
     } catch (err) {
       console.error(err);
-      new Notice("Failed to generate flashcards.");
+      new Notice(`Failed to export flashcards: ${(err as Error).message}`, 10000);
     }
   }
 
-  private async markHighlightsGenerated(sourcePath: string, highlightIds: string[]) {
-    await this.ensureStorageFolder(true);
-    const path = this.highlightPathFor(sourcePath);
-    const existing = await this.readJson<HighlightFile>(path, {
-      version: HIGHLIGHT_VERSION,
-      sourcePath,
-      highlights: [],
-    });
-    const idSet = new Set(highlightIds);
-    existing.highlights = existing.highlights.map((h) =>
-      idSet.has(h.id) ? { ...h, flashcardGenerated: true } : h
-    );
-    await this.writeJson(path, existing);
+  private pickImportFile() {
+    const files = this.app.vault
+      .getFiles()
+      .filter((file) => ["csv", "tsv", "txt"].includes(file.extension.toLowerCase()));
+    if (files.length === 0) {
+      new Notice("No CSV or TSV files in this vault.");
+      return;
+    }
+    new VaultFileModal(
+      this.app,
+      files,
+      (file) => void this.openImport(file),
+      "Choose a CSV or TSV file to import"
+    ).open();
   }
 
-  private async callOpenAI(systemPrompt: string, userPrompt: string): Promise<string> {
-    const response = await requestUrl({
-      url: "https://api.openai.com/v1/responses",
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.settings.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: this.settings.model || "gpt-5.1",
-        instructions: systemPrompt,
-        input: userPrompt,
-        temperature: 0.2,
-      }),
-    });
-
-    if (response.status < 200 || response.status >= 300) {
-      const errorText = response.text || JSON.stringify(response.json ?? "");
-      throw new Error(`OpenAI API error: ${errorText}`);
+  private async openImport(file: TFile) {
+    const data = readDelimitedFile(await this.app.vault.read(file), file.extension.toLowerCase());
+    if (data.rows.length === 0) {
+      new Notice("The file has no rows.");
+      return;
     }
-
-    const data = response.json as OpenAIResponseData;
-    return this.extractOutputText(data);
+    new ImportCardsModal(this.app, file.name, data, async (options) => {
+      try {
+        new Notice(await this.importCards(data, options), 8000);
+      } catch (err) {
+        console.error(err);
+        new Notice(`Failed to import flashcards: ${(err as Error).message}`, 10000);
+      }
+      await this.refreshFlashcardView();
+      await this.refreshFlashcardManageView();
+    }).open();
   }
 
-  private extractOutputText(data: OpenAIResponseData): string {
-    if (data.output_text && typeof data.output_text === "string") {
-      return data.output_text;
-    }
+  /**
+   * Turns mapped rows into cards and stores them with `addCards`; in "update"
+   * mode, matching existing cards are rewritten through `replaceAllCards` and
+   * keep their id and progress, re-keyed if the type changes. Returns a summary
+   * for the user.
+   */
+  async importCards(data: DelimitedFile, options: ImportOptions): Promise<string> {
+    const rows = options.skipFirstRow ? data.rows.slice(1) : data.rows;
+    const columnOf = (field: ImportField) => options.mapping.indexOf(field);
+    const get = (row: string[], field: ImportField) => {
+      const index = columnOf(field);
+      return index >= 0 ? (row[index] ?? "").trim() : "";
+    };
 
-    if (Array.isArray(data.output)) {
-      for (const item of data.output) {
-        if (item?.type === "message" && Array.isArray(item.content)) {
-          const textPart = item.content.find(
-            (content) => content.type === "output_text" || content.type === "text"
-          );
-          if (textPart?.text) return textPart.text;
+    const now = new Date().toISOString();
+    let invalid = 0;
+    const cards: Flashcard[] = [];
+    rows.forEach((row) => {
+      const question = get(row, "question");
+      const answer = get(row, "answer");
+      const typeValue = get(row, "type").toLowerCase();
+      const hasCloze = clozeNumbers(question).length > 0;
+      const cloze = typeValue.includes("cloze") || (!typeValue && hasCloze);
+      const type: CardType = cloze ? "cloze" : "basic";
+      if (!question || (type === "cloze" ? !hasCloze : !answer)) {
+        invalid += 1;
+        return;
+      }
+      const deck = get(row, "deck")
+        .split("::")
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .join("/");
+      cards.push({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type,
+        sourcePath: "manual",
+        highlightIds: [],
+        question,
+        answer,
+        createdAt: now,
+        deck: deck || options.defaultDeck || "Imported",
+        tags: parseTags(get(row, "tags")),
+      });
+    });
+
+    const existing = await this.loadAllCards();
+    const duplicates =
+      options.duplicates === "keep"
+        ? new Map<string, Flashcard>()
+        : findDuplicates(cards, existing);
+    const fresh = cards.filter((card) => !duplicates.has(card.id));
+
+    let updated = 0;
+    if (options.duplicates === "update") {
+      const existingIds = new Set(existing.map((card) => card.id));
+      const updates = new Map<string, Flashcard>();
+      cards.forEach((card) => {
+        const match = duplicates.get(card.id);
+        if (match && existingIds.has(match.id)) updates.set(match.id, card);
+      });
+      if (updates.size > 0) {
+        const rewritten = existing.map((card) => {
+          const update = updates.get(card.id);
+          if (!update) return card;
+          return {
+            ...card,
+            type: update.type,
+            question: update.question,
+            answer: update.answer,
+            deck: columnOf("deck") >= 0 ? update.deck : card.deck,
+            tags: columnOf("tags") >= 0 ? update.tags : card.tags,
+          };
+        });
+        await this.replaceAllCards(rewritten);
+        for (const card of rewritten) {
+          if (updates.has(card.id)) await this.retargetProgress(card);
         }
+        updated = updates.size;
       }
     }
+    await this.addCards(fresh);
+
+    const parts = [`Imported ${fresh.length} flashcards.`];
+    if (updated > 0) parts.push(`Updated ${updated}.`);
+    const skipped = duplicates.size - updated;
+    if (skipped > 0) parts.push(`Skipped ${skipped} duplicates.`);
+    if (invalid > 0) parts.push(`Skipped ${invalid} rows without a question or answer.`);
+    return parts.join(" ");
+  }
 
-    if (data?.content && typeof data.content === "string") return data.content;
-    return "";
+  deckFor(card: Flashcard): string {
+    return card.deck || defaultDeckFor(card.sourcePath);
   }
 
-  private parseFlashcards(raw: string): { question: string; answer: string }[] {
-    try {
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed)) return [];
-      return parsed
-        .filter((item) => item?.question && item?.answer)
-        .map((item) => ({
-          question: String(item.question),
-          answer: String(item.answer),
-        }));
-    } catch {
-      return [];
+  /** "All cards", then the current PDF if one is open, then every deck and tag. */
+  availableScopes(cards: Flashcard[]): StudyScope[] {
+    const scopes: StudyScope[] = [{ kind: "all" }];
+    const file = this.getActivePdfFile();
+    if (file) scopes.push({ kind: "source", sourcePath: file.path });
+
+    const decks = new Set(cards.map((card) => this.deckFor(card)));
+    Array.from(decks)
+      .sort((a, b) => a.localeCompare(b))
+      .forEach((deck) => scopes.push({ kind: "deck", deck }));
+
+    const tags = new Set(cards.flatMap((card) => card.tags ?? []));
+    Array.from(tags)
+      .sort((a, b) => a.localeCompare(b))
+      .forEach((tag) => scopes.push({ kind: "tag", tag }));
+    return scopes;
+  }
+
+  filterCardsByScope(cards: Flashcard[], scope: StudyScope): Flashcard[] {
+    switch (scope.kind) {
+      case "all":
+        return cards;
+      case "deck":
+        return cards.filter((card) => {
+          const deck = this.deckFor(card);
+          return deck === scope.deck || deck.startsWith(`${scope.deck}/`);
+        });
+      case "tag":
+        return cards.filter((card) => card.tags?.includes(scope.tag));
+      case "source":
+        return cards.filter((card) => card.sourcePath === scope.sourcePath);
     }
   }
 
-  private async openFlashcardView() {
-    let leaf = this.app.workspace.getLeavesOfType(FLASHCARD_VIEW_TYPE)[0];
+  private async openFlashcardManageView(showDuplicates = false) {
+    let leaf = this.app.workspace.getLeavesOfType(FLASHCARD_MANAGE_VIEW_TYPE)[0];
     if (!leaf) {
       leaf = this.app.workspace.getRightLeaf(false);
       await leaf.setViewState({
-        type: FLASHCARD_VIEW_TYPE,
+        type: FLASHCARD_MANAGE_VIEW_TYPE,
         active: true,
       });
     } else {
       await this.app.workspace.revealLeaf(leaf);
     }
+    if (showDuplicates && leaf.view instanceof FlashcardManageView) {
+      await leaf.view.showDuplicates(true);
+    }
   }
 
-  private async openFlashcardManageView() {
-    let leaf = this.app.workspace.getLeavesOfType(FLASHCARD_MANAGE_VIEW_TYPE)[0];
+  private async openStatsView() {
+    let leaf = this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE)[0];
     if (!leaf) {
-      leaf = this.app.workspace.getRightLeaf(false);
+      leaf = this.app.workspace.getLeaf("tab");
       await leaf.setViewState({
-        type: FLASHCARD_MANAGE_VIEW_TYPE,
+        type: STATS_VIEW_TYPE,
         active: true,
       });
     } else {
@@ -1101,6 +7456,16 @@ export default class PdfFlashcardsPlugin extends Plugin {
     }
   }
 
+  private async refreshStatsView() {
+    const leaves = this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE);
+    for (const leaf of leaves) {
+      const view = leaf.view;
+      if (view instanceof FlashcardStatsView) {
+        await view.refresh();
+      }
+    }
+  }
+
   private async refreshFlashcardView() {
     const leaves = this.app.workspace.getLeavesOfType(FLASHCARD_VIEW_TYPE);
     if (leaves.length === 0) return;
@@ -1123,8 +7488,9 @@ export default class PdfFlashcardsPlugin extends Plugin {
     }
   }
 
-  private getAnnotationMarkdownPath(file: TFile): string {
-    const baseName = `${file.basename} Annotations.md`;
+  /** A note next to the PDF, named after it: "<PDF name> <suffix>.md". */
+  private getAnnotationMarkdownPath(file: TFile, suffix = "Annotations"): string {
+    const baseName = `${file.basename} ${suffix}.md`;
     const parentPath = file.parent?.path ?? "";
     return parentPath ? `${parentPath}/${baseName}` : baseName;
   }
@@ -1136,33 +7502,311 @@ export default class PdfFlashcardsPlugin extends Plugin {
       return lines.join("\n");
     }
 
-    const order: HighlightColor[] = ["flashcard", "yellow", "green", "blue"];
-    const groups = new Map<HighlightColor, Highlight[]>();
-    highlights.forEach((highlight) => {
-      const list = groups.get(highlight.color) ?? [];
+    this.groupAnnotations(highlights).forEach(({ title, highlights: group }) => {
+      if (title) lines.push(`## ${title}`);
+      group.forEach((highlight) => {
+        const fields = this.annotationFields(file, highlight);
+        lines.push(renderAnnotationTemplate(this.settings.annotationTemplate, fields));
+      });
+      lines.push("");
+    });
+
+    return lines.join("\n").trimEnd() + "\n";
+  }
+
+  /** Colors follow the palette order, pages and dates ascend; "none" is one untitled group. */
+  private groupAnnotations(highlights: Highlight[]): { title: string; highlights: Highlight[] }[] {
+    const firstPage = (h: Highlight) =>
+      h.pages.length > 0 ? Math.min(...h.pages.map((p) => p.page)) : Number.MAX_SAFE_INTEGER;
+    const byPage = [...highlights].sort((a, b) => firstPage(a) - firstPage(b));
+    const grouping = this.settings.annotationGrouping;
+    if (grouping === "none") return [{ title: "", highlights: byPage }];
+
+    const groups = new Map<string, Highlight[]>();
+    const add = (key: string, highlight: Highlight) => {
+      const list = groups.get(key) ?? [];
       list.push(highlight);
-      groups.set(highlight.color, list);
+      groups.set(key, list);
+    };
+    if (grouping === "page") {
+      byPage.forEach((h) => add(h.pages.length > 0 ? `Page ${firstPage(h) + 1}` : "No page", h));
+      return Array.from(groups, ([title, list]) => ({ title, highlights: list }));
+    }
+    if (grouping === "date") {
+      [...highlights]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .forEach((h) => add(dayKey(new Date(h.createdAt)), h));
+      return Array.from(groups, ([title, list]) => ({ title, highlights: list }));
+    }
+
+    highlights.forEach((h) => add(h.color, h));
+    const order = this.settings.palette.map((c) => c.id);
+    groups.forEach((_, color) => {
+      if (!order.includes(color)) order.push(color);
     });
+    return order
+      .filter((color) => groups.has(color))
+      .map((color) => ({
+        title: this.categoryFor(color).name,
+        highlights: groups.get(color) ?? [],
+      }));
+  }
+
+  private annotationFields(file: TFile, highlight: Highlight): Record<string, string> {
+    const pages = Array.from(new Set(highlight.pages.map((p) => p.page + 1))).sort(
+      (a, b) => a - b
+    );
+    return {
+      text: highlight.text.replace(/\s+/g, " ").trim(),
+      note: highlight.note?.trim() ?? "",
+      color: this.categoryFor(highlight.color).name,
+      page: pages.length > 0 ? String(pages[0]) : "",
+      pages: formatPageRanges(pages),
+      pageLinks: pages.map((page) => `[[${file.path}#page=${page}|p. ${page}]]`).join(", "),
+      date: dayKey(new Date(highlight.createdAt)),
+      link: this.buildSourceUri(file.path, highlight.id),
+    };
+  }
+
+  private async generateStudyGuideFromActivePdf() {
+    const file = this.getActivePdfFile();
+    if (!file) {
+      new Notice("Open a PDF first.");
+      return;
+    }
+
+    const profile = this.defaultProfile();
+    const provider = this.trackUsage(
+      createProvider(this.settings, profile.model.trim()),
+      file.path
+    );
+    const configError = provider.configError();
+    if (configError) {
+      new Notice(configError);
+      return;
+    }
+
+    const highlights = (await this.loadHighlights(file.path))
+      .filter((h) => h.text.trim())
+      .sort((a, b) => (a.pages[0]?.page ?? 0) - (b.pages[0]?.page ?? 0));
+    if (highlights.length === 0) {
+      new Notice("No highlights found.");
+      return;
+    }
+
+    const path = this.getAnnotationMarkdownPath(file, "Study Guide");
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      const replace = await new Promise<boolean>((resolve) => {
+        new ConfirmModal(
+          this.app,
+          "Replace study guide",
+          `${path} already exists. Generating a new study guide replaces everything in it.`,
+          "Replace",
+          resolve
+        ).open();
+      });
+      if (!replace) return;
+    }
+
+    // Long highlight lists go out in batches; their parts are merged into one guide.
+    const batches = this.buildHighlightBatches(highlights);
+    const requests = batches.map((batch) => this.buildStudyGuideRequest(file, batch, profile));
+    const runCost = requests.reduce<number | null>((total, request, index) => {
+      const cost = usageCost(
+        this.settings.prices,
+        provider.model,
+        estimateTokens(`${request.systemPrompt}\n${request.userPrompt}`),
+        batches[index].length * 60
+      );
+      return total === null || cost === null ? null : total + cost;
+    }, 0);
+    if (!(await this.confirmWithinBudget(runCost))) return;
+
+    const notice = new Notice("Writing study guide...", 0);
+    try {
+      const parts: StudyGuide[] = [];
+      let offset = 0;
+      for (const [index, request] of requests.entries()) {
+        if (requests.length > 1) {
+          notice.setMessage(`Writing study guide: part ${index + 1} of ${requests.length}...`);
+        }
+        const part = await this.requestStudyGuide(provider, request, batches[index].length);
+        const shift = (entry: StudyGuideEntry) => ({
+          ...entry,
+          sources: entry.sources.map((source) => source + offset),
+        });
+        parts.push({
+          concepts: part.concepts.map(shift),
+          sections: part.sections.map(shift),
+          questions: part.questions.map(shift),
+        });
+        offset += batches[index].length;
+      }
+      const guide: StudyGuide = {
+        concepts: mergeGuideEntries(parts.flatMap((part) => part.concepts)),
+        sections: parts.flatMap((part) => part.sections),
+        questions: parts.flatMap((part) => part.questions),
+      };
+      const content = this.buildStudyGuideMarkdown(file, highlights, guide);
+      const current = this.app.vault.getAbstractFileByPath(path);
+      let note: TFile;
+      if (current instanceof TFile) {
+        await this.app.vault.modify(current, content);
+        note = current;
+      } else {
+        note = await this.app.vault.create(path, content);
+      }
+      new Notice(`Study guide written to ${path}.`);
+      await this.app.workspace.getLeaf(true).openFile(note);
+    } catch (err) {
+      console.error(err);
+      new Notice(`Failed to generate study guide: ${(err as Error).message}`, 10000);
+    } finally {
+      notice.hide();
+    }
+  }
+
+  private buildStudyGuideRequest(
+    file: TFile,
+    highlights: Highlight[],
+    profile: GenerationProfile
+  ): LlmRequest {
+    const list = highlights
+      .map((h, idx) => {
+        const pages = formatPageRanges(h.pages.map((p) => p.page + 1));
+        const page = pages ? ` [p. ${pages}]` : "";
+        const note = h.note ? `\n   Reader's note: ${h.note.replace(/\s+/g, " ").trim()}` : "";
+        const text = h.text.replace(/\s+/g, " ").trim();
+        return `(${idx + 1})${page} [${this.categoryFor(h.color).name}] ${text}${note}`;
+      })
+      .join("\n");
+
+    return {
+      systemPrompt:
+        "You are a study assistant that writes concise, well-structured study guides " +
+        "from a reader's highlights.",
+      userPrompt:
+        `Write a study guide for "${file.basename}" from the reader's highlights below. ` +
+        "Each highlight shows its page and, in brackets, the category the reader filed it under; " +
+        "treat categories as hints about its role, e.g. a definition, an example or something unclear. " +
+        "Return a JSON object with 'concepts' (key terms, each with a short 'explanation'), " +
+        "'sections' (a 'title' and short 'summary' for each stretch of consecutive pages, in page order) " +
+        "and 'questions' (open questions worth checking or discussing). " +
+        "Every item must have 'sources': the numbers of the highlights it is based on, e.g. [2] or [1, 3]. " +
+        "Avoid markdown.\n\n" +
+        list,
+      temperature: profile.temperature,
+      schema: STUDY_GUIDE_SCHEMA,
+    };
+  }
+
+  private async requestStudyGuide(
+    provider: LlmProvider,
+    request: LlmRequest,
+    highlightCount: number
+  ): Promise<StudyGuide> {
+    let userPrompt = request.userPrompt;
+    let problem = "";
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const { text: raw } = await provider.complete({ ...request, userPrompt });
+      try {
+        const guide = this.parseStudyGuide(extractJsonPayload(raw), highlightCount);
+        if (guide.concepts.length + guide.sections.length + guide.questions.length > 0) {
+          return guide;
+        }
+        problem = "The reply had no concepts, sections or questions.";
+      } catch (err) {
+        problem = (err as Error).message;
+      }
+      userPrompt =
+        `${request.userPrompt}\n\n` +
+        `Your previous reply was:\n${raw.slice(0, 4000)}\n\n` +
+        `It had this problem: ${problem}\n\n` +
+        "Reply again with the complete, corrected JSON and nothing else.";
+    }
+    throw new Error(problem || "The model returned nothing.");
+  }
+
+  /** Keeps entries with text; source numbers outside 1..highlightCount are dropped. */
+  private parseStudyGuide(payload: unknown, highlightCount: number): StudyGuide {
+    if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+      throw new Error("Expected a JSON object with 'concepts', 'sections' and 'questions'.");
+    }
+    const record = payload as Record<string, unknown>;
+    const entries = (key: string, titleKey: string, textKey?: string): StudyGuideEntry[] => {
+      const items = Array.isArray(record[key]) ? (record[key] as unknown[]) : [];
+      return items.flatMap((value) => {
+        if (!value || typeof value !== "object") return [];
+        const item = value as Record<string, unknown>;
+        const title = String(item[titleKey] ?? "").trim();
+        const text = textKey ? String(item[textKey] ?? "").trim() : "";
+        if (!title && !text) return [];
+        const sources = this.parseSourceNumbers(item.sources).filter(
+          (n) => n >= 1 && n <= highlightCount
+        );
+        return [{ title, text, sources: Array.from(new Set(sources)) }];
+      });
+    };
+    return {
+      concepts: entries("concepts", "term", "explanation"),
+      sections: entries("sections", "title", "summary"),
+      questions: entries("questions", "question"),
+    };
+  }
 
-    const titleForColor = (color: HighlightColor) => {
-      if (color === "flashcard") return "Flashcard";
-      return color.charAt(0).toUpperCase() + color.slice(1);
+  private buildStudyGuideMarkdown(file: TFile, highlights: Highlight[], guide: StudyGuide): string {
+    const pagesOf = (entry: StudyGuideEntry) =>
+      entry.sources.flatMap((n) => highlights[n - 1].pages.map((p) => p.page + 1));
+    const links = (entry: StudyGuideEntry) => {
+      if (entry.sources.length === 0) return "";
+      const parts = entry.sources.map((n) => {
+        const highlight = highlights[n - 1];
+        const page = highlight.pages[0] ? highlight.pages[0].page + 1 : undefined;
+        const pageLink = page !== undefined ? `[[${file.path}#page=${page}|p. ${page}]] ` : "";
+        return `${pageLink}[↗](${this.buildSourceUri(file.path, highlight.id)})`;
+      });
+      return ` (${parts.join(", ")})`;
     };
 
-    order.forEach((color) => {
-      const list = groups.get(color);
-      if (!list || list.length === 0) return;
-      lines.push(`## ${titleForColor(color)}`);
-      list.forEach((highlight) => {
-        const text = highlight.text.replace(/\s+/g, " ").trim();
-        const pages = Array.from(
-          new Set(highlight.pages.map((p) => p.page + 1))
-        ).sort((a, b) => a - b);
-        const pageInfo = pages.length ? ` (pages ${pages.join(", ")})` : "";
-        lines.push(`- ${text}${pageInfo}`);
+    const lines: string[] = [
+      `# Study guide: ${file.basename}`,
+      "",
+      `Generated from [[${file.path}|${file.basename}]] on ${dayKey(new Date())}.`,
+      "",
+    ];
+
+    if (guide.concepts.length > 0) {
+      lines.push("## Key concepts");
+      guide.concepts.forEach((entry) => {
+        const text = entry.text ? `: ${entry.text}` : "";
+        lines.push(`- **${entry.title}**${text}${links(entry)}`);
       });
       lines.push("");
-    });
+    }
+
+    if (guide.sections.length > 0) {
+      lines.push("## Summary");
+      const firstPage = (entry: StudyGuideEntry) => Math.min(Infinity, ...pagesOf(entry));
+      [...guide.sections]
+        .sort((a, b) => firstPage(a) - firstPage(b))
+        .forEach((entry) => {
+          const pages = formatPageRanges(pagesOf(entry));
+          const plural = pages.includes("-") || pages.includes(",");
+          const range = pages ? `${plural ? "Pages" : "Page"} ${pages}` : "";
+          const title = [range, entry.title].filter(Boolean).join(": ");
+          lines.push(`### ${title || "Summary"}`);
+          if (entry.text) lines.push(entry.text);
+          if (entry.sources.length > 0) lines.push(`Sources:${links(entry)}`);
+          lines.push("");
+        });
+    }
+
+    if (guide.questions.length > 0) {
+      lines.push("## Open questions");
+      guide.questions.forEach((entry) => lines.push(`- ${entry.title}${links(entry)}`));
+      lines.push("");
+    }
 
     return lines.join("\n").trimEnd() + "\n";
   }
@@ -1171,15 +7815,259 @@ export default class PdfFlashcardsPlugin extends Plugin {
     const file = this.getActivePdfFile();
     if (!file) return;
 
-    const highlights = await this.loadHighlights(file.path);
+    await this.exportAnnotations(file, await this.loadHighlights(file.path), true);
+  }
+
+  /**
+   * Writes the export note. A note without region markers yet (e.g. an export
+   * from before they existed) keeps its text and gets the region below it,
+   * unless `askToReplace` is set and the user chooses to replace it.
+   */
+  private async exportAnnotations(file: TFile, highlights: Highlight[], askToReplace = false) {
     const content = this.buildAnnotationMarkdown(file, highlights);
+    const managed = this.settings.annotationManagedRegion;
     const path = this.getAnnotationMarkdownPath(file);
     const existing = this.app.vault.getAbstractFileByPath(path);
 
     if (existing instanceof TFile) {
-      await this.app.vault.modify(existing, content);
+      if (managed) {
+        const current = await this.app.vault.read(existing);
+        const unmarked = current.trim() !== "" && !current.includes(ANNOTATION_REGION_START);
+        const replace =
+          unmarked &&
+          askToReplace &&
+          (await new Promise<boolean>((resolve) => {
+            new ConfirmModal(
+              this.app,
+              "Annotation note without markers",
+              `${path} has no study-assist markers yet. Replace its content with the export, ` +
+                "or keep it and add the export below?",
+              "Replace",
+              resolve,
+              "Keep and add below"
+            ).open();
+          }));
+        await this.app.vault.process(existing, (data) =>
+          replaceManagedRegion(replace ? "" : data, content)
+        );
+      } else {
+        await this.app.vault.modify(existing, content);
+      }
     } else {
-      await this.app.vault.create(path, content);
+      await this.app.vault.create(path, managed ? replaceManagedRegion("", content) : content);
+    }
+  }
+
+  private pickAnnotationFolder() {
+    const folders = new Map<string, TFolder>();
+    this.app.vault
+      .getFiles()
+      .filter((file) => file.extension.toLowerCase() === "pdf")
+      .forEach((file) => {
+        for (let folder = file.parent; folder; folder = folder.parent) {
+          folders.set(folder.path, folder);
+        }
+      });
+    if (folders.size === 0) {
+      new Notice("No PDFs in this vault.");
+      return;
+    }
+    new VaultFileModal(
+      this.app,
+      Array.from(folders.values()),
+      (folder) => void this.exportFolderAnnotations(folder),
+      "Choose a folder to export annotations from"
+    ).open();
+  }
+
+  /** Exports every PDF with highlights in the folder and its subfolders. */
+  private async exportFolderAnnotations(folder: TFolder) {
+    const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+    const pdfs = this.app.vault
+      .getFiles()
+      .filter((file) => file.extension.toLowerCase() === "pdf" && file.path.startsWith(prefix));
+    let exported = 0;
+    const failed: string[] = [];
+    for (const pdf of pdfs) {
+      try {
+        const highlights = await this.loadHighlights(pdf.path);
+        if (highlights.length === 0) continue;
+        await this.exportAnnotations(pdf, highlights);
+        exported += 1;
+      } catch (err) {
+        console.error(err);
+        failed.push(pdf.name);
+      }
+    }
+    const summary = [`Exported annotations for ${exported} of ${pdfs.length} PDFs.`];
+    if (failed.length > 0) summary.push(`Failed: ${failed.join(", ")}.`);
+    new Notice(summary.join(" "), failed.length > 0 ? 10000 : 5000);
+  }
+
+  /**
+   * Writes highlights as PDF Highlight annotations, either into the PDF itself
+   * or into "<name> (annotated).pdf" next to it. The file gets an incremental
+   * update, so the original bytes stay untouched and writing twice adds nothing.
+   * An existing copy is updated the same way, keeping what was added to it since.
+   */
+  private async writeHighlightsToPdf(inPlace: boolean) {
+    const file = this.getActivePdfFile();
+    if (!file) {
+      new Notice("Open a PDF first.");
+      return;
+    }
+    // Highlights imported from this PDF's annotations are already in the file.
+    const highlights = (await this.loadHighlights(file.path)).filter(
+      (h) => h.pages.length > 0 && !h.id.startsWith("pdf-")
+    );
+    if (highlights.length === 0) {
+      new Notice("This PDF has no highlights to write.");
+      return;
+    }
+
+    const prefix = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : "";
+    const copyPath = `${prefix}${file.basename} (annotated).pdf`;
+    const copy = inPlace ? null : this.app.vault.getAbstractFileByPath(copyPath);
+    const target = inPlace ? file : copy instanceof TFile ? copy : null;
+
+    try {
+      const input = new Uint8Array(await this.app.vault.readBinary(target ?? file));
+      const pdfjs = await loadPdfJs();
+      const doc = (await pdfjs.getDocument({ data: input.slice() }).promise) as PdfDocument;
+      let annotations: PdfHighlightAnnotation[];
+      try {
+        annotations = await this.toPdfAnnotations(doc, highlights);
+      } finally {
+        await doc.destroy();
+      }
+      const { data, added } = await addPdfHighlightAnnotations(input, annotations);
+      const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+
+      if (!target) {
+        await this.app.vault.createBinary(copyPath, buffer as ArrayBuffer);
+        new Notice(`Wrote ${added} highlights to ${copyPath}.`);
+        return;
+      }
+      if (added === 0) {
+        new Notice(`${target.name} already contains all highlights.`);
+        return;
+      }
+      await this.app.vault.modifyBinary(target, buffer as ArrayBuffer);
+      new Notice(`Wrote ${added} highlights into ${target.name}.`);
+    } catch (err) {
+      console.error(err);
+      new Notice(`Failed to write highlights: ${(err as Error).message}`, 10000);
+    }
+  }
+
+  /** One annotation per highlighted page, named after the highlight so reruns can skip it. */
+  private async toPdfAnnotations(
+    doc: PdfDocument,
+    highlights: Highlight[]
+  ): Promise<PdfHighlightAnnotation[]> {
+    const annotations: PdfHighlightAnnotation[] = [];
+    for (const highlight of highlights) {
+      for (const { page, rects } of highlight.pages) {
+        if (page < 0 || page >= doc.numPages || rects.length === 0) continue;
+        const viewport = (await doc.getPage(page + 1)).getViewport({ scale: 1 });
+        const point = (x: number, y: number) =>
+          viewport.convertToPdfPoint(x * viewport.width, y * viewport.height);
+        const quadPoints = rects.flatMap((r) => [
+          ...point(r.x, r.y),
+          ...point(r.x + r.w, r.y),
+          ...point(r.x, r.y + r.h),
+          ...point(r.x + r.w, r.y + r.h),
+        ]);
+        annotations.push({
+          pageIndex: page,
+          quadPoints,
+          color: parseHexColor(this.colorFor(highlight.color)),
+          contents: highlight.note?.trim() || highlight.text.replace(/\s+/g, " ").trim(),
+          name: `study-assist-${highlight.id}-${page}`,
+          modified: new Date(highlight.createdAt),
+        });
+      }
+    }
+    return annotations;
+  }
+
+  /**
+   * Turns Highlight annotations made in other readers into highlights of the
+   * active PDF. Annotations this plugin wrote and ones imported before are skipped.
+   */
+  private async importPdfAnnotations() {
+    const file = this.getActivePdfFile();
+    if (!file) {
+      new Notice("Open a PDF first.");
+      return;
     }
+
+    try {
+      const input = new Uint8Array(await this.app.vault.readBinary(file));
+      const existingIds = new Set((await this.loadHighlights(file.path)).map((h) => h.id));
+      const idOf = (a: PdfHighlightAnnotation) => `pdf-${this.hashString(a.key ?? a.name)}`;
+      const annotations = (await readPdfHighlightAnnotations(input)).filter((a) => {
+        const id = idOf(a);
+        if (a.name.startsWith("study-assist-") || existingIds.has(id)) return false;
+        existingIds.add(id);
+        return true;
+      });
+      if (annotations.length === 0) {
+        new Notice("No new highlight annotations found in this PDF.");
+        return;
+      }
+
+      const pdfjs = await loadPdfJs();
+      const doc = (await pdfjs.getDocument({ data: input.slice() }).promise) as PdfDocument;
+      const imported: Highlight[] = [];
+      try {
+        for (const annotation of annotations) {
+          if (annotation.pageIndex >= doc.numPages) continue;
+          const page = await doc.getPage(annotation.pageIndex + 1);
+          const items = (await page.getTextContent()).items;
+          const rects = quadsToRects(annotation.quadPoints, page.getViewport({ scale: 1 }));
+          if (rects.length === 0) continue;
+          const contents = annotation.contents.trim();
+          const text = textUnderQuads(items, annotation.quadPoints) || contents;
+          const color = this.nearestCategory(annotation.color);
+          imported.push({
+            id: idOf(annotation),
+            color,
+            isFlashcard: this.isFlashcardCategory(color),
+            text,
+            createdAt: annotation.modified.toISOString(),
+            pages: [{ page: annotation.pageIndex, rects }],
+            note: contents && contents !== text ? contents : undefined,
+          });
+        }
+      } finally {
+        await doc.destroy();
+      }
+
+      await this.saveHighlights(file.path, imported);
+      this.refreshPdfControllers();
+      new Notice(`Imported ${imported.length} highlights from ${file.name}.`);
+    } catch (err) {
+      console.error(err);
+      new Notice(`Failed to import annotations: ${(err as Error).message}`, 10000);
+    }
+  }
+
+  /** The palette category whose color is closest to an annotation color. */
+  private nearestCategory(rgb: [number, number, number] | null): HighlightColor {
+    const palette = this.settings.palette;
+    if (!rgb || palette.length === 0) return palette[0]?.id ?? DEFAULT_PALETTE[0].id;
+    let best = palette[0];
+    let bestDistance = Infinity;
+    palette.forEach((category) => {
+      const candidate = parseHexColor(category.color);
+      if (!candidate) return;
+      const distance = candidate.reduce((sum, c, i) => sum + (c - rgb[i]) ** 2, 0);
+      if (distance < bestDistance) {
+        best = category;
+        bestDistance = distance;
+      }
+    });
+    return best.id;
   }
 }